@@ -1,50 +1,76 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   ModuleType, AIProvider, AISettings, RawDataRow, ProcessedRow, 
-  ColumnMapping, CodingStatus, CodedResult, ReferenceEntry 
+  ColumnMapping, CodingStatus, CodedResult, ReferenceEntry, CodingSession, SessionSummary,
+  ModuleSettings, ProviderLimits, CsvOptions, CsvPreview, 
+  SpreadsheetOptions, SpreadsheetPreview, ReferenceColumnMapping, ReferenceImportItem, 
+  ReferenceConflict, BundleMergeStrategy, RetrievalSettings, MatchMode, MatchSettings, DualResult, 
+  PromptTemplate, CodeCandidate, EnsembleSettings, EnsembleMember, CoderDecision, ReviewState, ReviewRules, RowChange 
 } from './types';
 import { 
-  parseDataFile, exportData 
+  parseDataFile, exportData, isSpreadsheetFile, readWorkbook, 
+  previewSpreadsheet, sheetToRows, checkIdColumn 
 } from './utils/csvHelper';
+import { previewCsvFile, CSV_DELIMITERS, CSV_ENCODINGS } from './utils/csvParser';
+import { getInputKey, groupIdenticalInputs, normalizeInputText, getIndustryText } from './utils/textHelper';
 import { 
-  codeSingleOccupation, suggestCodes 
+  codeSingleOccupation, suggestCodes, estimateCodingTokens,
+  codeBatch, estimateBatchCodingTokens, CodingBatchItem, DEFAULT_EMBEDDING_MODELS 
 } from './services/geminiService';
+import { getRetrievalSettings, retrieveExamples, buildVectorIndex } from './services/vectorIndex';
 import { 
-  addReferenceEntries, findReferenceMatch, findSimilarReferences, 
-  getReferenceStats, clearReferenceData 
+  runEvaluation, buildEvaluationReport, normalizeGoldCode, getConfigName, exportEvaluationReport, 
+  EvaluationConfig, EvaluationReport, EvaluationPrediction, GoldItem 
+} from './services/evaluationService';
+import { 
+  drawDoubleCodingSample, toFirstDecision, computeLevelAgreement, isDisagreement, awaitsSecondCoding 
+} from './services/agreementService';
+import { getEnsembleVoters, getVoterId, combineVotes, summarizeAgreement, VoteInput } from './services/ensembleService';
+import { getReviewRules, getReviewReason, getReviewProgress } from './services/reviewService';
+import { getCodingActor, withChange } from './services/auditService';
+import { 
+  getTargetModule, resolveBulkCode, recodeResult, findReplaceMatches, buildTextFilter, undoBulkEdit, getRowsChangedSince, 
+  BulkEdit, UNDO_LIMIT 
+} from './services/bulkEditService';
+import { 
+  getProviderLimits, createRateLimiter, runJobQueue, withRetry, isAbortError, getErrorStatus,
+  DEFAULT_PROVIDER_LIMITS 
+} from './services/jobQueue';
+import { 
+  addReferenceEntries, findReferenceMatch, getMatchSettings, 
+  getReferenceStats, clearReferenceData, saveSession, loadSession, 
+  listSessions, renameSession, deleteSession, getPendingEntries, 
+  approveReferenceEntries, deleteReferenceEntries, queryReferenceEntries, 
+  findReferenceConflicts, getPromptTemplates 
 } from './services/dbService';
+import { 
+  getActivePromptTemplate, getDefaultPromptTemplate, savePromptTemplate, 
+  renderInstructions, renderTask, PROMPT_VARIABLES 
+} from './services/promptTemplates';
+import { 
+  validateCodedResult, validateCode, lookupCode, getLevelOptions, getLeafLevel, combineDualResult, DUAL_PARTS, SingleModule, 
+  hasCodeList, applyCandidate 
+} from './services/hierarchyService';
+import { CLASSIFICATIONS, getClassification, getDictionaryModules } from './services/classificationRegistry';
+import { guessReferenceMapping, analyzeReferenceImport, applyReferenceImport } from './services/referenceImport';
+import { 
+  exportKnowledgeBundle, readKnowledgeBundle, planBundleImport, applyBundleImport, BundleImportPlan 
+} from './services/knowledgeBundle';
 import { 
   BrainIcon, CodeIcon, DatabaseIcon, HelpCircleIcon, ExternalLinkIcon, 
   PieChartIcon, ZapIcon, LayoutKanbanIcon, SaveIcon, TrashIcon, 
   DownloadIcon, SettingsIcon, UploadIcon, FileSpreadsheetIcon, 
   ArrowRightIcon, CheckCircleIcon, AlertCircleIcon, SparklesIcon,
   SearchIcon, FilterIcon, ListIcon, EditIcon, WifiIcon, WifiOffIcon,
-  RefreshCwIcon, BarChartIcon
+  RefreshCwIcon, BarChartIcon, ClockIcon
 } from './components/Icons';
 
 // --- Constants ---
-const MODULE_DETAILS = {
-  [ModuleType.ISCO08]: {
-    name: "ISCO-08",
-    description: "International Standard Classification of Occupations (08). Used for classifying job titles.",
-    url: "https://www.ilo.org/public/english/bureau/stat/isco/isco08/"
-  },
-  [ModuleType.ISIC4]: {
-    name: "ISIC Rev. 4",
-    description: "International Standard Industrial Classification of All Economic Activities.",
-    url: "https://unstats.un.org/unsd/classifications/Econ/isic"
-  },
-  [ModuleType.COICOP]: {
-    name: "COICOP 2018",
-    description: "Classification of Individual Consumption According to Purpose.",
-    url: "https://unstats.un.org/unsd/classifications/Econ/coicop"
-  },
-  [ModuleType.DUAL]: {
-    name: "Dual Coding",
-    description: "Simultaneous coding of Occupation (ISCO) and Industry (ISIC) for complex datasets.",
-    url: "#"
-  }
-};
+// Autosave is throttled: at most one IndexedDB write per interval while rows are changing
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+// Sidebar views that are not a classification; they leave an open session's results in place
+const TOOL_VIEWS: string[] = ['knowledge', 'prompts', 'sessions', 'qc', 'evaluation', 'dashboard'];
 
 // --- Components ---
 
@@ -84,11 +110,21 @@ const SettingsModal: React.FC<{
     }
   };
 
+  const retrieval = getRetrievalSettings(localSettings);
+  const updateRetrieval = (patch: Partial<RetrievalSettings>) => 
+    setLocalSettings({ ...localSettings, retrieval: { ...localSettings.retrieval, ...patch } });
+
+  const ensemble = localSettings.ensemble || { enabled: false, members: [] };
+  const updateEnsemble = (patch: Partial<EnsembleSettings>) => 
+    setLocalSettings({ ...localSettings, ensemble: { ...ensemble, ...patch } });
+  const updateMember = (id: string, patch: Partial<EnsembleMember>) => 
+    updateEnsemble({ members: ensemble.members.map(m => m.id === id ? { ...m, ...patch } : m) });
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 w-full max-w-md shadow-2xl">
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
         <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
             <SettingsIcon className="w-5 h-5 text-blue-400"/> AI Engine Settings
         </h2>
@@ -185,6 +221,201 @@ const SettingsModal: React.FC<{
                     )}
                 </div>
             </div>
+
+            <div className="pt-4 border-t border-slate-700">
+                <label className="block text-sm font-medium text-slate-400 mb-2">Throughput ({localSettings.provider})</label>
+                <div className="grid grid-cols-2 gap-3">
+                    {([
+                        ['concurrency', 'Parallel requests'],
+                        ['requestsPerMinute', 'Requests / min'],
+                        ['tokensPerMinute', 'Tokens / min'],
+                        ['maxRetries', 'Max retries'],
+                        ['batchSize', 'Rows per request']
+                    ] as [keyof ProviderLimits, string][]).map(([key, label]) => (
+                        <div key={key}>
+                            <label className="block text-xs text-slate-500 mb-1">{label}</label>
+                            <input 
+                                type="number"
+                                min={key === 'concurrency' || key === 'batchSize' ? 1 : 0}
+                                value={localSettings.limits?.[localSettings.provider]?.[key] ?? DEFAULT_PROVIDER_LIMITS[localSettings.provider][key]}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    limits: {
+                                        ...localSettings.limits,
+                                        [localSettings.provider]: {
+                                            ...localSettings.limits?.[localSettings.provider],
+                                            [key]: Math.max(key === 'concurrency' || key === 'batchSize' ? 1 : 0, Number(e.target.value) || 0)
+                                        }
+                                    }
+                                })}
+                                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            />
+                        </div>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Use 0 for no limit. Rate-limited (429) and server errors are retried with exponential backoff. Batched rows the model skips are re-sent one at a time.</p>
+            </div>
+
+            <div className="pt-4 border-t border-slate-700">
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-400 mb-2 cursor-pointer">
+                    <input 
+                        type="checkbox"
+                        checked={ensemble.enabled}
+                        onChange={(e) => updateEnsemble({ enabled: e.target.checked })}
+                        className="rounded border-slate-600 bg-slate-900"
+                    />
+                    Ensemble Coding
+                </label>
+                {ensemble.enabled && (
+                    <div className="space-y-3">
+                        {ensemble.members.map(member => (
+                            <div key={member.id} className="p-3 bg-slate-900/50 border border-slate-700 rounded-lg space-y-2">
+                                <div className="flex gap-2">
+                                    <select 
+                                        value={member.provider}
+                                        onChange={(e) => updateMember(member.id, { provider: e.target.value as AIProvider })}
+                                        className="bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                    >
+                                        <option value={AIProvider.Gemini}>Gemini</option>
+                                        <option value={AIProvider.OpenAI}>OpenAI</option>
+                                        <option value={AIProvider.DeepSeek}>DeepSeek</option>
+                                        <option value={AIProvider.Local}>Local</option>
+                                    </select>
+                                    <input 
+                                        type="text"
+                                        value={member.model}
+                                        onChange={(e) => updateMember(member.id, { model: e.target.value })}
+                                        placeholder="Model, e.g. qwen2.5"
+                                        className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                    <button 
+                                        onClick={() => updateEnsemble({ members: ensemble.members.filter(m => m.id !== member.id) })}
+                                        className="p-2 hover:bg-slate-700 rounded text-slate-400 hover:text-red-400"
+                                        title="Remove model"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                {(member.provider === AIProvider.OpenAI || member.provider === AIProvider.DeepSeek) && (
+                                    <input 
+                                        type="password"
+                                        value={member.apiKey || ''}
+                                        onChange={(e) => updateMember(member.id, { apiKey: e.target.value })}
+                                        placeholder={`${member.provider} API Key`}
+                                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                )}
+                                {member.provider === AIProvider.Local && (
+                                    <input 
+                                        type="text"
+                                        value={member.baseUrl || ''}
+                                        onChange={(e) => updateMember(member.id, { baseUrl: e.target.value })}
+                                        placeholder="http://localhost:11434/v1/chat/completions"
+                                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                )}
+                            </div>
+                        ))}
+                        <button 
+                            onClick={() => updateEnsemble({ members: [...ensemble.members, { id: crypto.randomUUID(), provider: AIProvider.Local, model: '' }] })}
+                            className="w-full py-2 border border-dashed border-slate-600 hover:border-slate-400 rounded-lg text-sm text-slate-400 hover:text-white"
+                        >
+                            + Add Model
+                        </button>
+                    </div>
+                )}
+                <p className="text-xs text-slate-500 mt-1">Every row is also coded by the models above. The majority code wins; confidence reflects how many models agree, and disagreements are flagged for review.</p>
+            </div>
+
+            <div className="pt-4 border-t border-slate-700">
+                <label className="block text-sm font-medium text-slate-400 mb-2">Example Retrieval</label>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">Examples per row</label>
+                        <input 
+                            type="number"
+                            min={0}
+                            max={10}
+                            value={retrieval.examples}
+                            onChange={(e) => updateRetrieval({ examples: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                        />
+                    </div>
+                    <label className="flex items-end gap-2 pb-2 text-sm text-slate-300 cursor-pointer">
+                        <input 
+                            type="checkbox"
+                            checked={retrieval.semantic}
+                            onChange={(e) => updateRetrieval({ semantic: e.target.checked })}
+                            className="rounded border-slate-600 bg-slate-900"
+                        />
+                        Semantic search (embeddings)
+                    </label>
+                </div>
+                {retrieval.semantic && (
+                    <div className="grid grid-cols-2 gap-3 mt-3">
+                        <div>
+                            <label className="block text-xs text-slate-500 mb-1">Embedding source</label>
+                            <select 
+                                value={retrieval.embeddingSource}
+                                onChange={(e) => updateRetrieval({ embeddingSource: e.target.value as RetrievalSettings['embeddingSource'] })}
+                                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            >
+                                <option value="provider">Current provider</option>
+                                <option value="local">Local endpoint</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs text-slate-500 mb-1">Embedding model</label>
+                            <input 
+                                type="text"
+                                value={retrieval.embeddingModel}
+                                onChange={(e) => updateRetrieval({ embeddingModel: e.target.value })}
+                                placeholder={DEFAULT_EMBEDDING_MODELS[retrieval.embeddingSource === 'local' ? AIProvider.Local : localSettings.provider] || 'model name'}
+                                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            />
+                        </div>
+                        {retrieval.embeddingSource === 'local' && (
+                            <div className="col-span-2">
+                                <label className="block text-xs text-slate-500 mb-1">Embedding endpoint</label>
+                                <input 
+                                    type="text"
+                                    value={retrieval.embeddingUrl}
+                                    onChange={(e) => updateRetrieval({ embeddingUrl: e.target.value })}
+                                    placeholder="http://localhost:11434/v1/embeddings"
+                                    className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                />
+                            </div>
+                        )}
+                        <div className="col-span-2">
+                            <label className="block text-xs text-slate-500 mb-1">
+                                Semantic weight: {Math.round(retrieval.semanticWeight * 100)}%
+                            </label>
+                            <input 
+                                type="range"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={retrieval.semanticWeight}
+                                onChange={(e) => updateRetrieval({ semanticWeight: Number(e.target.value) })}
+                                className="w-full"
+                            />
+                        </div>
+                    </div>
+                )}
+                <p className="text-xs text-slate-500 mt-1">Examples are drawn from the knowledge base. Semantic search also finds synonyms and translations; vectors are cached locally and only new entries are embedded.</p>
+            </div>
+
+            <div className="pt-4 border-t border-slate-700">
+                <label className="block text-sm font-medium text-slate-400 mb-1">Coder Name</label>
+                <input 
+                    type="text" 
+                    value={localSettings.coderName || ''}
+                    onChange={(e) => setLocalSettings({...localSettings, coderName: e.target.value})}
+                    className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="e.g. J. Smith"
+                />
+                <p className="text-xs text-slate-500 mt-1">Recorded on knowledge base entries learned from your corrections.</p>
+            </div>
         </div>
 
         <div className="flex justify-end gap-3 mt-8">
@@ -201,21 +432,275 @@ const SettingsModal: React.FC<{
   );
 };
 
-const FileUpload: React.FC<{ onUpload: (data: RawDataRow[]) => void }> = ({ onUpload }) => {
+const CsvPreviewPanel: React.FC<{
+    fileName: string;
+    preview: CsvPreview;
+    loading: boolean;
+    onChange: (options: CsvOptions) => void;
+    onConfirm: () => void;
+    onCancel: () => void;
+  }> = ({ fileName, preview, loading, onChange, onConfirm, onCancel }) => {
+    const [header, ...rows] = preview.records;
+    const width = Math.max(0, ...preview.records.map(r => r.length));
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
+            <div className="flex items-start justify-between mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-white flex items-center gap-2"><FileSpreadsheetIcon className="w-5 h-5 text-blue-400" /> Check File Format</h2>
+                    <p className="text-slate-400 text-sm mt-1">{fileName}{preview.bom ? ' (byte order mark detected)' : ''}</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-2">Delimiter</label>
+                    <select 
+                        value={preview.delimiter}
+                        onChange={(e) => onChange({ delimiter: e.target.value, encoding: preview.encoding })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        {CSV_DELIMITERS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-2">Encoding</label>
+                    <select 
+                        value={preview.encoding}
+                        onChange={(e) => onChange({ delimiter: preview.delimiter, encoding: e.target.value })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        {CSV_ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className={`overflow-x-auto border border-slate-700 rounded-lg mb-6 ${loading ? 'opacity-50' : ''}`}>
+                <table className="w-full text-left text-sm">
+                    <thead className="bg-slate-900 text-slate-400">
+                        <tr>
+                            {Array.from({ length: width }, (_, i) => (
+                                <th key={i} className="px-3 py-2 font-medium whitespace-nowrap">{header?.[i] || <span className="text-slate-600">Column {i + 1}</span>}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700">
+                        {rows.map((row, r) => (
+                            <tr key={r}>
+                                {Array.from({ length: width }, (_, i) => (
+                                    <td key={i} className="px-3 py-2 text-slate-300 max-w-xs truncate" title={row[i]}>{row[i] ?? ''}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-slate-500 mb-6">Showing the header and first {rows.length} rows. If columns are merged or characters look garbled, change the delimiter or encoding.</p>
+
+            <div className="flex justify-end gap-3">
+                <button onClick={onCancel} className="px-6 py-2.5 text-slate-300 hover:text-white">Cancel</button>
+                <button 
+                    onClick={onConfirm}
+                    disabled={loading}
+                    className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-6 py-2.5 rounded-lg font-bold shadow-lg shadow-blue-600/20"
+                >
+                    Load File <ArrowRightIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const SpreadsheetPreviewPanel: React.FC<{
+    fileName: string;
+    preview: SpreadsheetPreview;
+    onChange: (options: Partial<SpreadsheetOptions>) => void;
+    onConfirm: () => void;
+    onCancel: () => void;
+  }> = ({ fileName, preview, onChange, onConfirm, onCancel }) => {
+    const width = Math.max(0, ...preview.records.map(r => r.length));
+    const footnoteStart = preview.skipFootnotes ? preview.totalRows - preview.footnoteRows : preview.totalRows;
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-xl">
+            <div className="mb-6">
+                <h2 className="text-xl font-bold text-white flex items-center gap-2"><FileSpreadsheetIcon className="w-5 h-5 text-blue-400" /> Select Table</h2>
+                <p className="text-slate-400 text-sm mt-1">{fileName}</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-2">Sheet</label>
+                    <select 
+                        value={preview.sheetName}
+                        onChange={(e) => onChange({ sheetName: e.target.value, skipFootnotes: preview.skipFootnotes })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        {preview.sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-2">Header Row</label>
+                    <input 
+                        type="number"
+                        min={1}
+                        max={Math.max(1, preview.totalRows)}
+                        value={preview.headerRow + 1}
+                        onChange={(e) => onChange({ ...preview, headerRow: Math.max(0, (Number(e.target.value) || 1) - 1) })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                </div>
+                <div className="flex items-end">
+                    <label className="flex items-center gap-2 text-sm text-slate-300 pb-3 cursor-pointer">
+                        <input 
+                            type="checkbox"
+                            checked={preview.skipFootnotes}
+                            onChange={(e) => onChange({ ...preview, skipFootnotes: e.target.checked })}
+                            className="accent-blue-500"
+                        />
+                        Skip footnote rows {preview.footnoteRows > 0 && <span className="text-slate-500">({preview.footnoteRows} found)</span>}
+                    </label>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto border border-slate-700 rounded-lg mb-6 max-h-96">
+                <table className="w-full text-left text-sm">
+                    <tbody className="divide-y divide-slate-700">
+                        {preview.records.map((row, r) => (
+                            <tr 
+                                key={r} 
+                                onClick={() => onChange({ ...preview, headerRow: r })}
+                                title="Click to use this row as the header"
+                                className={`cursor-pointer ${
+                                    r === preview.headerRow ? 'bg-blue-500/20 text-white font-bold' : 
+                                    r < preview.headerRow || r >= footnoteStart ? 'text-slate-600 line-through' : 'text-slate-300 hover:bg-slate-700/50'}`}
+                            >
+                                <td className="px-3 py-2 text-xs text-slate-500 font-mono w-10">{r + 1}</td>
+                                {Array.from({ length: width }, (_, i) => (
+                                    <td key={i} className="px-3 py-2 max-w-xs truncate" title={row[i]}>{row[i] ?? ''}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-slate-500 mb-6">
+                Showing the first {preview.records.length} of {preview.totalRows} rows. Rows above the header are skipped. 
+                Blank or repeated header names are renamed (e.g. Column_3, Occupation_2) so no column is lost.
+            </p>
+
+            <div className="flex justify-end gap-3">
+                <button onClick={onCancel} className="px-6 py-2.5 text-slate-300 hover:text-white">Cancel</button>
+                <button 
+                    onClick={onConfirm}
+                    className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-6 py-2.5 rounded-lg font-bold shadow-lg shadow-blue-600/20"
+                >
+                    Load Sheet <ArrowRightIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const FileUpload: React.FC<{ onUpload: (data: RawDataRow[], fileName: string) => void }> = ({ onUpload }) => {
     const [isDragging, setIsDragging] = useState(false);
+    const [csvFile, setCsvFile] = useState<File | null>(null);
+    const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+    const [sheetFile, setSheetFile] = useState<{ file: File, workbook: any } | null>(null);
+    const [sheetPreview, setSheetPreview] = useState<SpreadsheetPreview | null>(null);
+    const [loading, setLoading] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
   
+    const loadFile = async (file: File, csvOptions?: CsvOptions) => {
+      setLoading(true);
+      try {
+        const data = await parseDataFile(file, csvOptions);
+        onUpload(data, file.name);
+      } catch (err) {
+        alert("Error parsing file. Please check the format.");
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
     const handleFiles = async (files: FileList | null) => {
       if (!files || files.length === 0) return;
       const file = files[0];
+      if (isSpreadsheetFile(file)) {
+        // Workbooks often have cover sheets and title rows: let the user pick the table
+        try {
+          const workbook = await readWorkbook(file);
+          setSheetPreview(previewSpreadsheet(workbook));
+          setSheetFile({ file, workbook });
+        } catch (err) {
+          alert("Error parsing file. Please check the format.");
+          console.error(err);
+        }
+        return;
+      }
+      // Delimited text: show what was detected before parsing the whole file
       try {
-        const data = await parseDataFile(file);
-        onUpload(data);
+        setCsvPreview(await previewCsvFile(file));
+        setCsvFile(file);
       } catch (err) {
-        alert("Error parsing file. Please check the format.");
+        alert("Error reading file. Please check the format.");
+        console.error(err);
+      }
+    };
+
+    const handlePreviewChange = async (options: CsvOptions) => {
+      if (!csvFile) return;
+      setLoading(true);
+      try {
+        setCsvPreview(await previewCsvFile(csvFile, options));
+      } catch (err) {
+        alert("This file cannot be read with the selected encoding.");
         console.error(err);
+      } finally {
+        setLoading(false);
       }
     };
+
+    const resetPreview = () => {
+      setCsvFile(null); 
+      setCsvPreview(null); 
+      setSheetFile(null); 
+      setSheetPreview(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    if (sheetFile && sheetPreview) {
+      return (
+        <SpreadsheetPreviewPanel 
+            fileName={sheetFile.file.name}
+            preview={sheetPreview}
+            onChange={(options) => setSheetPreview(previewSpreadsheet(sheetFile.workbook, options))}
+            onConfirm={() => {
+                try {
+                  onUpload(sheetToRows(sheetFile.workbook, sheetPreview), sheetFile.file.name);
+                } catch (err) {
+                  alert("Error reading the selected sheet.");
+                  console.error(err);
+                }
+            }}
+            onCancel={resetPreview}
+        />
+      );
+    }
+
+    if (csvFile && csvPreview) {
+      return (
+        <CsvPreviewPanel 
+            fileName={csvFile.name}
+            preview={csvPreview}
+            loading={loading}
+            onChange={handlePreviewChange}
+            onConfirm={() => loadFile(csvFile, { delimiter: csvPreview.delimiter, encoding: csvPreview.encoding })}
+            onCancel={resetPreview}
+        />
+      );
+    }
   
     return (
       <div 
@@ -234,7 +719,7 @@ const FileUpload: React.FC<{ onUpload: (data: RawDataRow[]) => void }> = ({ onUp
           type="file" 
           ref={fileInputRef} 
           className="hidden" 
-          accept=".csv,.xlsx,.xls,.ods" 
+          accept=".csv,.tsv,.txt,.xlsx,.xls,.ods" 
           onChange={(e) => handleFiles(e.target.files)}
         />
         <div className="w-16 h-16 bg-slate-700 group-hover:bg-slate-600 rounded-full flex items-center justify-center mx-auto mb-6 transition-colors shadow-lg">
@@ -255,10 +740,25 @@ const FileUpload: React.FC<{ onUpload: (data: RawDataRow[]) => void }> = ({ onUp
 
 const DataMapping: React.FC<{ 
     columns: string[]; 
+    rows: RawDataRow[];
     mapping: ColumnMapping; 
     onUpdate: (m: ColumnMapping) => void;
+    module: ModuleType;
+    moduleSettings: ModuleSettings;
+    onModuleSettingsChange: (s: ModuleSettings) => void;
     onConfirm: () => void;
-  }> = ({ columns, mapping, onUpdate, onConfirm }) => {
+  }> = ({ columns, rows, mapping, onUpdate, module, moduleSettings, onModuleSettingsChange, onConfirm }) => {
+    const { fields } = getClassification(module);
+    const matching = getMatchSettings(moduleSettings);
+    const updateMatching = (patch: Partial<MatchSettings>) => 
+      onModuleSettingsChange({ ...moduleSettings, matching: { ...moduleSettings.matching, ...patch } });
+    const review = getReviewRules(moduleSettings);
+    const updateReview = (patch: Partial<ReviewRules>) => 
+      onModuleSettingsChange({ ...moduleSettings, review: { ...moduleSettings.review, ...patch } });
+    const idReport = useMemo(
+        () => mapping.idColumn ? checkIdColumn(rows, mapping.idColumn) : null, 
+        [rows, mapping.idColumn]
+    );
     
     // Smart mapping heuristic
     useEffect(() => {
@@ -304,7 +804,7 @@ const DataMapping: React.FC<{
               </div>
               
               <div>
-                <label className="block text-sm font-semibold text-blue-400 mb-2">Primary Text (e.g. Job Title)</label>
+                <label className="block text-sm font-semibold text-blue-400 mb-2">Primary Text ({fields.primary.label})</label>
                 <select 
                   className="w-full bg-slate-900 border border-blue-500/50 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
                   value={mapping.jobTitleColumn}
@@ -316,7 +816,7 @@ const DataMapping: React.FC<{
               </div>
   
               <div>
-                <label className="block text-sm font-semibold text-slate-300 mb-2">Context (e.g. Description)</label>
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Context ({fields.secondary.label})</label>
                 <select 
                   className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
                   value={mapping.jobDescriptionColumn}
@@ -327,16 +827,123 @@ const DataMapping: React.FC<{
                 </select>
               </div>
 
-              <div>
-                <label className="block text-sm font-semibold text-slate-300 mb-2">Industry (For Dual Coding)</label>
+              {fields.tertiary && (
+                <div>
+                  <label className="block text-sm font-semibold text-slate-300 mb-2">{fields.tertiary.label}</label>
+                  <select 
+                    className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={mapping.industryColumn || ''}
+                    onChange={(e) => onUpdate({...mapping, industryColumn: e.target.value})}
+                  >
+                    <option value="">-- None (use {fields.secondary.label}) --</option>
+                    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+              )}
+
+              {idReport && (idReport.blankRows > 0 || idReport.duplicates.length > 0) && (
+                <div className="md:col-span-2 bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 text-sm">
+                  <div className="flex items-center gap-2 font-bold text-amber-400 mb-2">
+                    <AlertCircleIcon className="w-4 h-4" /> "{mapping.idColumn}" is not a unique ID
+                  </div>
+                  <ul className="text-amber-200/80 space-y-1 list-disc list-inside">
+                    {idReport.blankRows > 0 && <li>{idReport.blankRows} rows have no ID</li>}
+                    {idReport.duplicates.length > 0 && (
+                      <li>
+                        {idReport.duplicates.length} IDs are shared by {idReport.duplicateRows} rows: {' '}
+                        <span className="font-mono">
+                          {idReport.duplicates.slice(0, 5).map(d => `${d.value} (×${d.count})`).join(', ')}
+                          {idReport.duplicates.length > 5 && ', …'}
+                        </span>
+                      </li>
+                    )}
+                  </ul>
+                  <p className="text-xs text-slate-400 mt-2">Rows are tracked internally, so coding is safe. The column is exported exactly as it was imported; fix the source file if downstream systems need unique IDs.</p>
+                </div>
+              )}
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Coding Precision</label>
                 <select 
                   className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
-                  value={mapping.industryColumn || ''}
-                  onChange={(e) => onUpdate({...mapping, industryColumn: e.target.value})}
+                  value={moduleSettings.minLevel ?? getLeafLevel(module)}
+                  onChange={(e) => onModuleSettingsChange({...moduleSettings, minLevel: Number(e.target.value)})}
                 >
-                  <option value="">-- None --</option>
-                  {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                  {getLevelOptions(module).map((opt, i) => (
+                    <option key={opt.level} value={opt.level}>
+                      {i === 0 ? `Always ${opt.name} (e.g. ${opt.example})` : `Allow fallback to ${opt.name} (e.g. ${opt.example})`}
+                    </option>
+                  ))}
                 </select>
+                <p className="text-xs text-slate-500 mt-1">For vague answers the AI may stop at a coarser level instead of guessing a detailed code.</p>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Knowledge Base Matching</label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <select 
+                    className="bg-slate-900 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={matching.mode}
+                    onChange={(e) => updateMatching({ mode: e.target.value as MatchMode })}
+                  >
+                    <option value="exact">Exact text only</option>
+                    <option value="normalized">Ignore case, spacing & end punctuation</option>
+                    <option value="fuzzy">Allow near matches</option>
+                  </select>
+                  <div className={matching.mode === 'fuzzy' ? '' : 'opacity-50'}>
+                    <label className="block text-xs text-slate-500 mb-1">Auto-code up to score {matching.autoCodeScore.toFixed(2)}</label>
+                    <input 
+                      type="range" min={0} max={0.4} step={0.01}
+                      disabled={matching.mode !== 'fuzzy'}
+                      value={matching.autoCodeScore}
+                      onChange={(e) => updateMatching({ autoCodeScore: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">Example search threshold {matching.searchThreshold.toFixed(2)}</label>
+                    <input 
+                      type="range" min={0.1} max={0.8} step={0.05}
+                      value={matching.searchThreshold}
+                      onChange={(e) => updateMatching({ searchThreshold: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-sm text-slate-300 cursor-pointer">
+                  <input 
+                    type="checkbox"
+                    checked={matching.keys.includes('label')}
+                    onChange={(e) => updateMatching({ keys: e.target.checked ? ['term', 'label'] : ['term'] })}
+                    className="rounded border-slate-600 bg-slate-900"
+                  />
+                  Also match official labels
+                </label>
+                <p className="text-xs text-slate-500 mt-1">Rows matching a knowledge base entry are coded without the AI. Scores run from 0 (identical) to 1; lower auto-code scores are stricter.</p>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-semibold text-slate-300 mb-2">Review Routing</label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {([
+                    ['lowConfidence', 'Low confidence'],
+                    ['mediumConfidence', 'Medium confidence'],
+                    ['nonDictionary', 'Not coded by the knowledge base'],
+                    ['validationFailure', 'Invalid or too coarse code'],
+                    ['modelDisagreement', 'Ensemble models disagree']
+                  ] as [keyof ReviewRules, string][]).map(([rule, label]) => (
+                    <label key={rule} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input 
+                        type="checkbox"
+                        checked={review[rule]}
+                        onChange={(e) => updateReview({ [rule]: e.target.checked })}
+                        className="rounded border-slate-600 bg-slate-900"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Coded rows matching any of these rules are sent to the review queue.</p>
               </div>
           </div>
   
@@ -354,28 +961,19 @@ const DataMapping: React.FC<{
     );
 };
 
-const ManualCodingModal: React.FC<{
-    isOpen: boolean;
-    onClose: () => void;
-    row: ProcessedRow;
-    onSave: (result: CodedResult) => void;
+// Label search with AI suggestions plus a code field checked against the official hierarchy
+const CodeEditor: React.FC<{
     module: ModuleType;
+    code: string;
+    label: string;
+    onChange: (code: string, label: string) => void;
     settings: AISettings;
-}> = ({ isOpen, onClose, row, onSave, module, settings }) => {
-    const [code, setCode] = useState(row.result?.code || '');
-    const [label, setLabel] = useState(row.result?.label || '');
+}> = ({ module, code, label, onChange, settings }) => {
     const [suggestions, setSuggestions] = useState<{code: string, label: string}[]>([]);
-
-    useEffect(() => {
-        if(isOpen) {
-            setCode(row.result?.code || '');
-            setLabel(row.result?.label || '');
-            setSuggestions([]);
-        }
-    }, [isOpen, row]);
+    const officialNode = module !== ModuleType.DUAL ? lookupCode(code, module as SingleModule) : null;
 
     const handleLabelChange = async (val: string) => {
-        setLabel(val);
+        onChange(code, val);
         if (val.length > 2) {
             // Debounced call could be better, but direct for now
             const sugs = await suggestCodes(val, module, settings);
@@ -383,111 +981,547 @@ const ManualCodingModal: React.FC<{
         }
     };
 
-    if (!isOpen) return null;
-
     return (
-        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-             <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 w-full max-w-lg shadow-2xl">
-                <h3 className="text-lg font-bold text-white mb-4">Manual Coding</h3>
-                <div className="mb-4 p-3 bg-slate-900/50 rounded border border-slate-700">
-                    <div className="text-xs text-slate-500 uppercase font-bold">Input Text</div>
-                    <div className="text-white">{row['primaryText']}</div>
-                    <div className="text-slate-400 text-sm">{row['secondaryText']}</div>
-                </div>
-
-                <div className="space-y-4">
-                    <div>
-                        <label className="text-sm text-slate-400">Label / Title (Type for suggestions)</label>
-                        <input 
-                            className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
-                            value={label}
-                            onChange={(e) => handleLabelChange(e.target.value)}
-                        />
-                        {suggestions.length > 0 && (
-                            <div className="mt-1 bg-slate-700 rounded border border-slate-600 max-h-32 overflow-y-auto absolute w-[calc(100%-3rem)] max-w-lg z-10 shadow-xl">
-                                {suggestions.map((s, i) => (
-                                    <div 
-                                        key={i} 
-                                        className="p-2 hover:bg-slate-600 cursor-pointer text-sm text-white border-b border-slate-600/50 last:border-0"
-                                        onClick={() => { setCode(s.code); setLabel(s.label); setSuggestions([]); }}
-                                    >
-                                        <span className="font-mono font-bold text-blue-300 mr-2">{s.code}</span>
-                                        {s.label}
-                                    </div>
-                                ))}
+        <div className="space-y-4">
+            <div className="relative">
+                <label className="text-sm text-slate-400">Label / Title (Type for suggestions)</label>
+                <input 
+                    className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                    value={label}
+                    onChange={(e) => handleLabelChange(e.target.value)}
+                />
+                {suggestions.length > 0 && (
+                    <div className="mt-1 bg-slate-700 rounded border border-slate-600 max-h-32 overflow-y-auto absolute w-full z-10 shadow-xl">
+                        {suggestions.map((s, i) => (
+                            <div 
+                                key={i} 
+                                className="p-2 hover:bg-slate-600 cursor-pointer text-sm text-white border-b border-slate-600/50 last:border-0"
+                                onClick={() => { onChange(s.code, s.label); setSuggestions([]); }}
+                            >
+                                <span className="font-mono font-bold text-blue-300 mr-2">{s.code}</span>
+                                {s.label}
                             </div>
-                        )}
+                        ))}
                     </div>
-                    <div>
-                        <label className="text-sm text-slate-400">Code</label>
-                        <input 
-                            className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white font-mono"
-                            value={code}
-                            onChange={(e) => setCode(e.target.value)}
-                        />
+                )}
+            </div>
+            <div>
+                <label className="text-sm text-slate-400">Code</label>
+                <input 
+                    className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white font-mono"
+                    value={code}
+                    onChange={(e) => onChange(e.target.value, label)}
+                />
+                {officialNode && (
+                    <div className={`text-xs mt-1 ${officialNode.isLeaf ? 'text-emerald-400' : 'text-amber-400'}`}>
+                        {officialNode.code}: {officialNode.label}{!officialNode.isLeaf && ' (not a leaf code)'}
                     </div>
-                </div>
+                )}
+                {code && module !== ModuleType.DUAL && !officialNode && (
+                    hasCodeList(module) 
+                        ? <div className="text-xs mt-1 text-red-400">Code not found in {module}</div>
+                        : <div className="text-xs mt-1 text-slate-500">No code list bundled for {module}; only the code format is checked</div>
+                )}
+            </div>
+        </div>
+    );
+};
 
-                <div className="flex justify-end gap-3 mt-6">
-                    <button onClick={onClose} className="px-4 py-2 text-slate-300 hover:text-white">Cancel</button>
-                    <button 
-                        onClick={() => {
-                            onSave({
-                                code, 
-                                label, 
-                                confidence: 'Manual', 
-                                reasoning: 'Manually edited by user'
-                            });
-                            onClose();
-                        }} 
-                        className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium"
-                    >
-                        Save
-                    </button>
-                </div>
-             </div>
+// Codes compare without separators, so "25.12" from the model matches the canonical "2512"
+const isSameCode = (a?: string, b?: string) => 
+    (a || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase() === (b || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+
+// Model candidates other than the row's current code, with their rank in the model's list
+const getAlternatives = (row: ProcessedRow): { candidate: CodeCandidate; rank: number }[] => {
+    const candidates = row.candidates || [];
+    return candidates
+        .map(candidate => ({ 
+            candidate, 
+            rank: candidates.filter(c => c.part === candidate.part).indexOf(candidate) + 1 
+        }))
+        .filter(({ candidate }) => {
+            const current = candidate.part ? row.result?.dual?.[candidate.part] : row.result;
+            return !isSameCode(candidate.code, current?.code);
+        });
+};
+
+const CandidateChips: React.FC<{ row: ProcessedRow; onSelect: (candidate: CodeCandidate) => void }> = ({ row, onSelect }) => {
+    const alternatives = getAlternatives(row);
+    if (alternatives.length === 0) return null;
+    return (
+        <div className="flex flex-wrap gap-1 mt-1.5">
+            {alternatives.map(({ candidate, rank }) => (
+                <button
+                    key={`${candidate.part || ''}:${candidate.code}`}
+                    onClick={() => onSelect(candidate)}
+                    title={`Switch to ${candidate.code} "${candidate.label}"`}
+                    className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-700/60 hover:bg-blue-600/30 text-slate-300 hover:text-blue-200 border border-slate-600"
+                >
+                    {candidate.part && <span className="font-sans text-slate-500 mr-1">{candidate.part.toUpperCase()}</span>}
+                    #{rank} {candidate.code}
+                    <span className="ml-1 text-slate-500">{Math.round(candidate.score * 100)}%</span>
+                </button>
+            ))}
         </div>
     );
 };
 
-const ResultsTable: React.FC<{
+const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+    'needs-review': 'Needs review',
+    approved: 'Approved',
+    rejected: 'Rejected',
+    flagged: 'Flagged'
+};
+
+const REVIEW_STATE_STYLES: Record<ReviewState, string> = {
+    'needs-review': 'text-amber-400',
+    approved: 'text-emerald-400',
+    rejected: 'text-red-400',
+    flagged: 'text-purple-400'
+};
+
+// Keyboard-driven pass over a fixed list of rows. Keys are ignored while `paused`
+// (the manual coding modal is open) so typing there does not approve rows.
+const ReviewMode: React.FC<{
     rows: ProcessedRow[];
+    queue: string[];
+    paused: boolean;
+    onClose: () => void;
+    onSetState: (rowKeys: string[], state: ReviewState) => void;
     onEdit: (row: ProcessedRow) => void;
-    onDelete: (id: string) => void;
-    onBulkAction: (action: 'accept' | 'delete', ids: string[]) => void;
-}> = ({ rows, onEdit, onDelete, onBulkAction }) => {
-    const [page, setPage] = useState(1);
-    const [search, setSearch] = useState('');
-    const [selected, setSelected] = useState<Set<string>>(new Set());
-    const pageSize = 50;
-
-    const filteredRows = useMemo(() => {
-        if (!search) return rows;
-        const lowSearch = search.toLowerCase();
-        return rows.filter(r => 
-            (r['primaryText']?.toLowerCase() || '').includes(lowSearch) ||
-            (r.result?.code?.toLowerCase() || '').includes(lowSearch) ||
-            (r.result?.label?.toLowerCase() || '').includes(lowSearch)
-        );
-    }, [rows, search]);
+    onSelectCandidate: (row: ProcessedRow, candidate: CodeCandidate) => void;
+}> = ({ rows, queue, paused, onClose, onSetState, onEdit, onSelectCandidate }) => {
+    const [index, setIndex] = useState(0);
+    const rowsByKey = useMemo(() => new Map(rows.map(r => [r.rowKey, r])), [rows]);
+    const row = rowsByKey.get(queue[index]);
+    const alternatives = row ? getAlternatives(row) : [];
+    const decided = queue.filter(key => {
+        const state = rowsByKey.get(key)?.reviewState;
+        return state && state !== 'needs-review';
+    }).length;
 
-    const paginatedRows = filteredRows.slice((page-1)*pageSize, page*pageSize);
-    const totalPages = Math.ceil(filteredRows.length / pageSize);
+    const move = (step: number) => setIndex(i => Math.min(Math.max(i + step, 0), queue.length - 1));
 
-    const toggleSelect = (id: string) => {
-        const newSet = new Set(selected);
-        if (newSet.has(id)) newSet.delete(id);
-        else newSet.add(id);
-        setSelected(newSet);
+    const decide = (state: ReviewState) => {
+        if (!row) return;
+        onSetState([row.rowKey], state);
+        move(1);
     };
 
-    const toggleSelectAll = () => {
-        if (selected.size === paginatedRows.length) setSelected(new Set());
-        else setSelected(new Set(paginatedRows.map(r => r.id)));
-    };
+    useEffect(() => {
+        if (paused) return;
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            const key = e.key.toLowerCase();
+            if (key === 'escape') onClose();
+            else if (key === 'a' || key === 'enter') decide('approved');
+            else if (key === 'f') decide('flagged');
+            else if (key === 'r') decide('rejected');
+            else if (key === 'e' && row) onEdit(row);
+            else if (key === 'j' || key === 'arrowright') move(1);
+            else if (key === 'k' || key === 'arrowleft') move(-1);
+            else if (/^[1-9]$/.test(key) && row && alternatives[Number(key) - 1]) {
+                onSelectCandidate(row, alternatives[Number(key) - 1].candidate);
+                move(1);
+            } else return;
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    });
 
-    const getStatusColor = (row: ProcessedRow) => {
-        if (row.codingStatus === 'error') return 'bg-red-500/10 text-red-400 border-red-500/20';
+    const parts = row?.result?.dual ? DUAL_PARTS.map(({ part, name }) => ({ name, result: row.result!.dual![part] })) : [{ name: '', result: row?.result }];
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-40 p-4">
+            <div className="bg-slate-800 rounded-2xl border border-slate-700 w-full max-w-2xl shadow-2xl overflow-hidden">
+                <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-900/50">
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Review Mode</h3>
+                        <p className="text-xs text-slate-500">Row {Math.min(index + 1, queue.length)} of {queue.length} · {decided} decided</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">Close (Esc)</button>
+                </div>
+                <div className="h-1 bg-slate-900">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${queue.length > 0 ? (decided / queue.length) * 100 : 0}%` }} />
+                </div>
+                {row ? (
+                    <div className="p-6 space-y-4">
+                        <div>
+                            <div className="text-xs text-slate-500 uppercase font-bold mb-1">Input {row.sourceId && <span className="font-mono normal-case">· {row.sourceId}</span>}</div>
+                            <div className="text-white text-lg">{row['primaryText']}</div>
+                            {row['secondaryText'] && <div className="text-slate-400 text-sm mt-1">{row['secondaryText']}</div>}
+                            {row.tertiaryText && <div className="text-slate-400 text-sm mt-1">{row.tertiaryText}</div>}
+                        </div>
+                        {parts.map(({ name, result }) => (
+                            <div key={name} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
+                                {name && <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">{name}</div>}
+                                <div className="flex items-baseline gap-3">
+                                    <span className="font-mono text-blue-300 font-bold text-lg">{result?.code || '-'}</span>
+                                    <span className="text-slate-300">{result?.label}</span>
+                                    <span className="ml-auto text-xs text-slate-500">{result?.confidence}</span>
+                                </div>
+                            </div>
+                        ))}
+                        {row.result?.reasoning && <p className="text-xs text-slate-400 italic">{row.result.reasoning}</p>}
+                        <div className="flex items-center gap-2 text-xs">
+                            {row.reviewState && <span className={`font-bold ${REVIEW_STATE_STYLES[row.reviewState]}`}>{REVIEW_STATE_LABELS[row.reviewState]}</span>}
+                            {row.reviewReason && <span className="text-slate-500">· {row.reviewReason}</span>}
+                        </div>
+                        {alternatives.length > 0 && (
+                            <div>
+                                <div className="text-xs text-slate-500 uppercase font-bold mb-2">Alternatives</div>
+                                <div className="flex flex-wrap gap-2">
+                                    {alternatives.slice(0, 9).map(({ candidate }, i) => (
+                                        <button
+                                            key={`${candidate.part || ''}:${candidate.code}`}
+                                            onClick={() => { onSelectCandidate(row, candidate); move(1); }}
+                                            className="text-xs px-2 py-1 rounded bg-slate-700/60 hover:bg-blue-600/30 text-slate-300 border border-slate-600"
+                                        >
+                                            <kbd className="font-mono text-slate-500 mr-1">{i + 1}</kbd>
+                                            {candidate.part && <span className="text-slate-500 mr-1">{candidate.part.toUpperCase()}</span>}
+                                            <span className="font-mono">{candidate.code}</span> {candidate.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div className="p-8 text-center text-slate-500">This row is no longer in the session.</div>
+                )}
+                <div className="p-4 border-t border-slate-700 bg-slate-900/50 flex flex-wrap gap-2 justify-between text-xs">
+                    <div className="flex gap-2">
+                        <button onClick={() => decide('approved')} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded font-bold"><kbd>A</kbd> Approve</button>
+                        <button onClick={() => row && onEdit(row)} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded font-bold"><kbd>E</kbd> Edit</button>
+                        <button onClick={() => decide('flagged')} className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded font-bold"><kbd>F</kbd> Flag</button>
+                        <button onClick={() => decide('rejected')} className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded font-bold"><kbd>R</kbd> Reject</button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => move(-1)} disabled={index === 0} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white rounded"><kbd>K</kbd> Previous</button>
+                        <button onClick={() => move(1)} disabled={index >= queue.length - 1} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white rounded"><kbd>J</kbd> Next</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Session-wide find-and-replace of codes, plus undo for every bulk action
+const BulkEditBar: React.FC<{
+    rows: ProcessedRow[];
+    lastEdit?: BulkEdit;
+    onReplace: (fromCode: string, toCode: string, pattern: string, part: keyof DualResult) => void;
+    onUndo: () => void;
+}> = ({ rows, lastEdit, onReplace, onUndo }) => {
+    const [open, setOpen] = useState(false);
+    const [fromCode, setFromCode] = useState('');
+    const [toCode, setToCode] = useState('');
+    const [pattern, setPattern] = useState('');
+    const [part, setPart] = useState<keyof DualResult>('isco');
+    const isDual = useMemo(() => rows.some(r => r.result?.dual), [rows]);
+
+    const preview = useMemo(() => {
+        if (!open || !fromCode.trim()) return { count: 0, error: '' };
+        try {
+            buildTextFilter(pattern);
+            return { count: findReplaceMatches(rows, fromCode, pattern, part).length, error: '' };
+        } catch (e) {
+            return { count: 0, error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [open, rows, fromCode, pattern, part]);
+
+    if (!open && !lastEdit) {
+        return (
+            <div className="flex justify-end mb-4">
+                <button onClick={() => setOpen(true)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+                    <SearchIcon className="w-3 h-3" /> Find & Replace Codes
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 mb-4 space-y-3">
+            <div className="flex justify-between items-center">
+                <button onClick={() => setOpen(!open)} className="text-sm font-bold text-slate-300 hover:text-white flex items-center gap-1">
+                    <SearchIcon className="w-4 h-4" /> Find & Replace Codes
+                </button>
+                {lastEdit && (
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className="text-slate-500 truncate max-w-md" title={lastEdit.label}>Last bulk action: {lastEdit.label}</span>
+                        <button onClick={onUndo} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white rounded font-bold">Undo</button>
+                    </div>
+                )}
+            </div>
+            {open && (
+                <div className="flex flex-wrap items-end gap-3">
+                    {isDual && (
+                        <div>
+                            <label className="block text-xs text-slate-500 mb-1">Classification</label>
+                            <select 
+                                value={part} 
+                                onChange={(e) => setPart(e.target.value as keyof DualResult)}
+                                className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-300 outline-none"
+                            >
+                                {DUAL_PARTS.map(option => <option key={option.part} value={option.part}>{option.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">Replace code</label>
+                        <input value={fromCode} onChange={(e) => setFromCode(e.target.value)} placeholder="e.g. 5223" className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-white font-mono outline-none focus:ring-1 focus:ring-blue-500" />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">With code</label>
+                        <input value={toCode} onChange={(e) => setToCode(e.target.value)} placeholder="e.g. 5249" className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-white font-mono outline-none focus:ring-1 focus:ring-blue-500" />
+                    </div>
+                    <div className="flex-1 min-w-[12rem]">
+                        <label className="block text-xs text-slate-500 mb-1">Only where the text contains (optional, /regex/ allowed)</label>
+                        <input value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder="e.g. cashier" className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-white outline-none focus:ring-1 focus:ring-blue-500" />
+                    </div>
+                    <button 
+                        disabled={preview.count === 0 || !toCode.trim()}
+                        onClick={() => onReplace(fromCode, toCode, pattern, part)}
+                        className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded font-bold text-sm"
+                    >
+                        Replace in {preview.count} rows
+                    </button>
+                    {preview.error && <p className="w-full text-xs text-red-400">{preview.error}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const CHANGE_ACTION_LABELS: Record<RowChange['action'], string> = {
+    coded: 'Coded',
+    edited: 'Edited',
+    reviewed: 'Reviewed',
+    deleted: 'Deleted'
+};
+
+// Row details with the audit trail, newest change first
+const RowHistoryDrawer: React.FC<{ row: ProcessedRow; onClose: () => void }> = ({ row, onClose }) => {
+    const history = [...(row.history || [])].reverse();
+    const formatResult = (result?: CodedResult) => result ? `${result.code || '-'} ${result.label ? `"${result.label}"` : ''} (${result.confidence})` : '-';
+    return (
+        <div className="fixed inset-0 bg-black/50 flex justify-end z-40" onClick={onClose}>
+            <div className="bg-slate-800 border-l border-slate-700 w-full max-w-md h-full overflow-y-auto shadow-2xl" onClick={(e) => e.stopPropagation()}>
+                <div className="p-4 border-b border-slate-700 flex justify-between items-start bg-slate-900/50 sticky top-0">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-bold text-white">Row History</h3>
+                        <p className="text-sm text-slate-300 truncate" title={row['primaryText']}>{row['primaryText']}</p>
+                        {row.sourceId && <p className="text-xs text-slate-500 font-mono">ID {row.sourceId}</p>}
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">Close</button>
+                </div>
+                <div className="p-4 border-b border-slate-700">
+                    <div className="text-xs text-slate-500 uppercase font-bold mb-1">Current Result</div>
+                    <div className="text-sm text-blue-300 font-mono">{formatResult(row.result)}</div>
+                    {row.reviewState && <div className={`text-xs mt-1 ${REVIEW_STATE_STYLES[row.reviewState]}`}>{REVIEW_STATE_LABELS[row.reviewState]}</div>}
+                </div>
+                <ol className="p-4 space-y-4">
+                    {history.map((change, i) => (
+                        <li key={i} className="border-l-2 border-slate-600 pl-3">
+                            <div className="flex justify-between gap-2 text-xs">
+                                <span className="font-bold text-white">{CHANGE_ACTION_LABELS[change.action]}</span>
+                                <span className="text-slate-500">{new Date(change.at).toLocaleString()}</span>
+                            </div>
+                            <div className="text-xs text-slate-400">by {change.actor}</div>
+                            {change.after && (
+                                <div className="text-xs font-mono mt-1">
+                                    {change.before && <span className="text-slate-500 line-through mr-1">{formatResult(change.before)}</span>}
+                                    <span className="text-blue-300">{formatResult(change.after)}</span>
+                                </div>
+                            )}
+                            {change.note && <div className="text-xs text-slate-500 italic mt-1">{change.note}</div>}
+                        </li>
+                    ))}
+                    {history.length === 0 && <li className="text-sm text-slate-500">No changes recorded for this row.</li>}
+                </ol>
+            </div>
+        </div>
+    );
+};
+
+const ManualCodingModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    row: ProcessedRow;
+    onSave: (result: CodedResult) => void;
+    module: ModuleType;
+    settings: AISettings;
+}> = ({ isOpen, onClose, row, onSave, module, settings }) => {
+    const isDual = module === ModuleType.DUAL;
+    // Single modules edit one result; dual coding edits the ISCO and ISIC halves separately
+    const initialParts = (): Record<string, { code: string, label: string }> => isDual
+        ? Object.fromEntries(DUAL_PARTS.map(({ part }) => [part, { 
+            code: row.result?.dual?.[part].code || '', 
+            label: row.result?.dual?.[part].label || '' 
+          }]))
+        : { single: { code: row.result?.code || '', label: row.result?.label || '' } };
+    const [parts, setParts] = useState(initialParts);
+
+    useEffect(() => {
+        if(isOpen) setParts(initialParts());
+    }, [isOpen, row]);
+
+    if (!isOpen) return null;
+
+    // Clicking a model candidate fills the editor; saving applies it like any manual code
+    const renderCandidates = (key: string, candidates: CodeCandidate[]) => candidates.length > 0 && (
+        <div className="mb-3 space-y-1">
+            <div className="text-[10px] uppercase font-bold text-slate-500">Model Candidates</div>
+            {candidates.map((candidate, i) => (
+                <button
+                    key={candidate.code}
+                    onClick={() => setParts(prev => ({ ...prev, [key]: { code: candidate.code, label: candidate.label } }))}
+                    className={`w-full flex items-center gap-3 px-3 py-1.5 rounded text-left text-sm border ${
+                        isSameCode(parts[key].code, candidate.code) 
+                        ? 'bg-blue-600/20 border-blue-500/40 text-white' 
+                        : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
+                    }`}
+                >
+                    <span className="font-mono text-blue-300 w-20 flex-shrink-0">#{i + 1} {candidate.code}</span>
+                    <span className="flex-1 truncate" title={candidate.label}>{candidate.label}</span>
+                    <span className="text-xs text-slate-500">{Math.round(candidate.score * 100)}%</span>
+                </button>
+            ))}
+        </div>
+    );
+
+    const toManual = ({ code, label }: { code: string, label: string }): CodedResult => ({
+        code, 
+        label, 
+        confidence: 'Manual', 
+        reasoning: 'Manually edited by user'
+    });
+
+    const handleSave = () => {
+        if (!isDual) {
+            onSave(toManual(parts.single));
+        } else {
+            // Unchanged halves keep their original result, confidence and reasoning
+            const [isco, isic] = DUAL_PARTS.map(({ part }) => {
+                const original = row.result?.dual?.[part];
+                const edited = parts[part];
+                return original && original.code === edited.code && original.label === edited.label ? original : toManual(edited);
+            });
+            onSave(combineDualResult(isco, isic));
+        }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+             <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-lg font-bold text-white mb-4">Manual Coding</h3>
+                <div className="mb-4 p-3 bg-slate-900/50 rounded border border-slate-700">
+                    <div className="text-xs text-slate-500 uppercase font-bold">Input Text</div>
+                    <div className="text-white">{row['primaryText']}</div>
+                    <div className="text-slate-400 text-sm">{row['secondaryText']}</div>
+                    {isDual && row['tertiaryText'] && <div className="text-slate-400 text-sm">Industry: {row['tertiaryText']}</div>}
+                </div>
+
+                {isDual ? (
+                    <div className="space-y-6">
+                        {DUAL_PARTS.map(({ part, module: partModule, name }) => (
+                            <div key={part}>
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-xs uppercase font-bold text-slate-300">{name}</span>
+                                    {row.result?.dual?.[part] && (
+                                        <span className="text-[10px] text-slate-500">Current: {row.result.dual[part].confidence}</span>
+                                    )}
+                                </div>
+                                {renderCandidates(part, (row.candidates || []).filter(c => c.part === part))}
+                                <CodeEditor 
+                                    module={partModule}
+                                    code={parts[part].code}
+                                    label={parts[part].label}
+                                    onChange={(code, label) => setParts(prev => ({ ...prev, [part]: { code, label } }))}
+                                    settings={settings}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        {renderCandidates('single', (row.candidates || []).filter(c => !c.part))}
+                        <CodeEditor 
+                            module={module}
+                            code={parts.single.code}
+                            label={parts.single.label}
+                            onChange={(code, label) => setParts({ single: { code, label } })}
+                            settings={settings}
+                        />
+                    </>
+                )}
+
+                <div className="flex justify-end gap-3 mt-6">
+                    <button onClick={onClose} className="px-4 py-2 text-slate-300 hover:text-white">Cancel</button>
+                    <button 
+                        onClick={handleSave} 
+                        className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium"
+                    >
+                        Save
+                    </button>
+                </div>
+             </div>
+        </div>
+    );
+};
+
+const ResultsTable: React.FC<{
+    rows: ProcessedRow[];
+    onEdit: (row: ProcessedRow) => void;
+    onDelete: (id: string) => void;
+    onBulkAction: (action: 'accept' | 'delete' | 'approve' | 'flag' | 'rerun', ids: string[]) => void;
+    onSetCode: (ids: string[], code: string, part: keyof DualResult) => void;
+    onSelectCandidate: (row: ProcessedRow, candidate: CodeCandidate) => void;
+    onShowHistory: (row: ProcessedRow) => void;
+}> = ({ rows, onEdit, onDelete, onBulkAction, onSetCode, onSelectCandidate, onShowHistory }) => {
+    const [page, setPage] = useState(1);
+    const [search, setSearch] = useState('');
+    const [bulkCode, setBulkCode] = useState('');
+    const [bulkPart, setBulkPart] = useState<keyof DualResult>('isco');
+    const isDual = useMemo(() => rows.some(r => r.result?.dual), [rows]);
+    const [reviewFilter, setReviewFilter] = useState<ReviewState | 'all'>('all');
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const pageSize = 50;
+
+    const reviewProgress = useMemo(() => getReviewProgress(rows), [rows]);
+
+    const filteredRows = useMemo(() => {
+        const queue = reviewFilter === 'all' ? rows : rows.filter(r => r.reviewState === reviewFilter);
+        if (!search) return queue;
+        const lowSearch = search.toLowerCase();
+        return queue.filter(r => 
+            (r['primaryText']?.toLowerCase() || '').includes(lowSearch) ||
+            (r.sourceId?.toLowerCase() || '').includes(lowSearch) ||
+            (r.result?.code?.toLowerCase() || '').includes(lowSearch) ||
+            (r.result?.label?.toLowerCase() || '').includes(lowSearch)
+        );
+    }, [rows, search, reviewFilter]);
+
+    const paginatedRows = filteredRows.slice((page-1)*pageSize, page*pageSize);
+    const totalPages = Math.ceil(filteredRows.length / pageSize);
+
+    const toggleSelect = (id: string) => {
+        const newSet = new Set(selected);
+        if (newSet.has(id)) newSet.delete(id);
+        else newSet.add(id);
+        setSelected(newSet);
+    };
+
+    const toggleSelectAll = () => {
+        if (selected.size === paginatedRows.length) setSelected(new Set());
+        else setSelected(new Set(paginatedRows.map(r => r.rowKey)));
+    };
+
+    const getStatusColor = (row: ProcessedRow) => {
+        if (awaitsSecondCoding(row)) return 'bg-slate-700 text-slate-400';
+        if (row.codingStatus === 'error') return 'bg-red-500/10 text-red-400 border-red-500/20';
         if (row.codingStatus === 'pending') return 'bg-slate-700/30 text-slate-500 border-slate-700';
         if (row.result?.confidence === 'Manual') return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
         if (row.result?.confidence === 'High' || row.result?.confidence === 'Reference') return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
@@ -507,9 +1541,74 @@ const ResultsTable: React.FC<{
                         onChange={(e) => { setSearch(e.target.value); setPage(1); }}
                     />
                 </div>
+                {(reviewProgress.queued > 0 || reviewFilter !== 'all') && (
+                    <div className="flex items-center gap-1.5">
+                        <FilterIcon className="w-3 h-3 text-slate-500" />
+                        <select
+                            value={reviewFilter}
+                            onChange={(e) => { setReviewFilter(e.target.value as ReviewState | 'all'); setPage(1); }}
+                            title="Filter by review state"
+                            className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300 outline-none"
+                        >
+                            <option value="all">All rows</option>
+                            <option value="needs-review">Needs review ({reviewProgress.pending})</option>
+                            <option value="flagged">Flagged ({reviewProgress.flagged})</option>
+                            <option value="rejected">Rejected ({reviewProgress.rejected})</option>
+                            <option value="approved">Approved ({reviewProgress.approved})</option>
+                        </select>
+                    </div>
+                )}
                 {selected.size > 0 && (
                     <div className="flex items-center gap-2 animate-in fade-in">
                         <span className="text-sm text-slate-400">{selected.size} selected</span>
+                        {isDual && (
+                            <select 
+                                value={bulkPart} 
+                                onChange={(e) => setBulkPart(e.target.value as keyof DualResult)}
+                                className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300 outline-none"
+                            >
+                                {DUAL_PARTS.map(option => <option key={option.part} value={option.part}>{option.name}</option>)}
+                            </select>
+                        )}
+                        <input 
+                            value={bulkCode}
+                            onChange={(e) => setBulkCode(e.target.value)}
+                            placeholder="Code"
+                            className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-white font-mono outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <button 
+                            disabled={!bulkCode.trim()}
+                            onClick={() => { onSetCode(Array.from(selected), bulkCode, bulkPart); setSelected(new Set()); setBulkCode(''); }}
+                            className="px-3 py-1.5 bg-blue-500/10 hover:bg-blue-500/20 disabled:opacity-40 text-blue-400 text-xs font-bold rounded border border-blue-500/20"
+                        >
+                            Set Code
+                        </button>
+                        <button 
+                            onClick={() => { onBulkAction('rerun', Array.from(selected)); setSelected(new Set()); }}
+                            title="Send the selected rows to the AI again"
+                            className="px-3 py-1.5 bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 text-xs font-bold rounded border border-purple-500/20"
+                        >
+                            Re-run AI
+                        </button>
+                        <button 
+                            onClick={() => { onBulkAction('accept', Array.from(selected)); setSelected(new Set()); }}
+                            title="Send manual and high-confidence codes to the knowledge base review queue"
+                            className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 text-xs font-bold rounded border border-emerald-500/20"
+                        >
+                            Add to Knowledge Base
+                        </button>
+                        <button 
+                            onClick={() => { onBulkAction('approve', Array.from(selected)); setSelected(new Set()); }}
+                            className="px-3 py-1.5 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 text-xs font-bold rounded border border-blue-500/20"
+                        >
+                            Approve
+                        </button>
+                        <button 
+                            onClick={() => { onBulkAction('flag', Array.from(selected)); setSelected(new Set()); }}
+                            className="px-3 py-1.5 bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 text-xs font-bold rounded border border-amber-500/20"
+                        >
+                            Flag
+                        </button>
                         <button 
                             onClick={() => { onBulkAction('delete', Array.from(selected)); setSelected(new Set()); }}
                             className="px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-400 text-xs font-bold rounded border border-red-500/20"
@@ -537,25 +1636,94 @@ const ResultsTable: React.FC<{
                         </thead>
                         <tbody className="divide-y divide-slate-700/50">
                             {paginatedRows.map(row => (
-                                <tr key={row.id} className={`hover:bg-slate-700/30 transition-colors ${selected.has(row.id) ? 'bg-blue-900/10' : ''}`}>
+                                <tr key={row.rowKey} className={`hover:bg-slate-700/30 transition-colors ${selected.has(row.rowKey) ? 'bg-blue-900/10' : ''}`}>
                                     <td className="p-4">
-                                        <input type="checkbox" checked={selected.has(row.id)} onChange={() => toggleSelect(row.id)} className="rounded bg-slate-700 border-slate-600"/>
+                                        <input type="checkbox" checked={selected.has(row.rowKey)} onChange={() => toggleSelect(row.rowKey)} className="rounded bg-slate-700 border-slate-600"/>
                                     </td>
                                     <td className="p-4 max-w-xs">
                                         <div className="font-medium text-white truncate" title={row['primaryText']}>{row['primaryText']}</div>
                                         <div className="text-xs text-slate-500 truncate" title={row['secondaryText']}>{row['secondaryText']}</div>
+                                        {row.sourceId && <div className="text-[10px] text-slate-600 font-mono">ID {row.sourceId}</div>}
                                     </td>
-                                    <td className="p-4 font-mono text-blue-300 font-bold">{row.result?.code || '-'}</td>
-                                    <td className="p-4 text-slate-300 max-w-xs truncate" title={row.result?.label}>{row.result?.label || '-'}</td>
+                                    {awaitsSecondCoding(row) ? (
+                                        // Sampled for double coding: hidden until the second coder has coded it
+                                        <td colSpan={2} className="p-4 text-xs text-slate-500 italic">Hidden until double-coded</td>
+                                    ) : row.result?.dual ? (
+                                        <>
+                                            <td className="p-4 font-mono text-blue-300 font-bold whitespace-nowrap">
+                                                {DUAL_PARTS.map(({ part, name }) => (
+                                                    <div key={part}>
+                                                        <span className="text-[10px] font-sans text-slate-500 mr-1">{name}</span>
+                                                        {row.result!.dual![part].code || '-'}
+                                                        <span className="ml-2 text-[10px] font-sans text-slate-400" title={row.result!.dual![part].reasoning}>{row.result!.dual![part].confidence}</span>
+                                                    </div>
+                                                ))}
+                                            </td>
+                                            <td className="p-4 text-slate-300 max-w-xs">
+                                                {DUAL_PARTS.map(({ part }) => (
+                                                    <div key={part} className="truncate" title={row.result!.dual![part].label}>{row.result!.dual![part].label || '-'}</div>
+                                                ))}
+                                                <CandidateChips row={row} onSelect={(candidate) => onSelectCandidate(row, candidate)} />
+                                            </td>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <td className="p-4 font-mono text-blue-300 font-bold">
+                                                {row.result?.code || '-'}
+                                                {row.result?.level && (
+                                                    <span className="ml-2 text-[10px] font-sans bg-slate-700 text-slate-300 px-1.5 py-0.5 rounded" title="Hierarchy level of the code">L{row.result.level}</span>
+                                                )}
+                                            </td>
+                                            <td className="p-4 text-slate-300 max-w-xs">
+                                                <div className="truncate" title={row.result?.label}>{row.result?.label || '-'}</div>
+                                                <CandidateChips row={row} onSelect={(candidate) => onSelectCandidate(row, candidate)} />
+                                            </td>
+                                        </>
+                                    )}
                                     <td className="p-4">
-                                        <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-bold border ${getStatusColor(row)}`}>
-                                            {row.codingStatus === 'pending' ? '...' : row.result?.confidence || 'Error'}
-                                        </span>
+                                        {awaitsSecondCoding(row) ? (
+                                            // Confidence, matches, votes and the review reason would all give the result away
+                                            <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-bold border ${getStatusColor(row)}`}>Sampled</span>
+                                        ) : <>
+                                            <span title={row.errorMessage || (row.result?.promptVersion && `Prompt ${row.result.promptVersion}`)} className={`inline-flex items-center px-2 py-1 rounded text-xs font-bold border ${getStatusColor(row)}`}>
+                                                {row.codingStatus === 'pending' ? '...' : 
+                                                 row.codingStatus === 'error' ? (row.result ? 'Invalid' : 'Error') : 
+                                                 row.result?.confidence}
+                                            </span>
+                                            {[row.result?.match, row.result?.dual?.isco.match, row.result?.dual?.isic.match].map((match, i) => match && (
+                                                <div 
+                                                    key={i}
+                                                    className="text-[10px] text-slate-500 mt-1 max-w-[10rem] truncate" 
+                                                    title={`${match.mode} match to "${match.term}" (entry ${match.entryId}, score ${match.score.toFixed(3)})`}
+                                                >
+                                                    {match.score === 0 ? '=' : '≈'} {match.term}
+                                                    {match.score > 0 && <span className="ml-1 font-mono">{match.score.toFixed(2)}</span>}
+                                                </div>
+                                            ))}
+                                            {row.result?.ensemble && (
+                                                <div 
+                                                    className="text-[10px] mt-1 text-slate-500"
+                                                    title={row.result.ensemble.votes.map(v => `${v.model}: ${v.error ? `failed (${v.error})` : `${v.code} (${v.confidence})`}`).join('\n')}
+                                                >
+                                                    {Math.round(row.result.ensemble.agreement * 100)}% model agreement
+                                                </div>
+                                            )}
+                                            {row.reviewState && (
+                                                <div className={`text-[10px] mt-1 font-bold ${REVIEW_STATE_STYLES[row.reviewState]}`} title={row.reviewReason}>
+                                                    {REVIEW_STATE_LABELS[row.reviewState]}
+                                                    {row.reviewReason && <span className="font-normal text-slate-500"> · {row.reviewReason}</span>}
+                                                </div>
+                                            )}
+                                        </>}
+                                        {!!row.retryCount && (
+                                            <div className="text-[10px] text-slate-500 mt-1" title="Retries after rate-limit or server errors">{row.retryCount} {row.retryCount === 1 ? 'retry' : 'retries'}</div>
+                                        )}
                                     </td>
                                     <td className="p-4 text-right">
                                         <div className="flex justify-end gap-2">
-                                            <button onClick={() => onEdit(row)} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-white"><EditIcon className="w-4 h-4"/></button>
-                                            <button onClick={() => onDelete(row.id)} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4"/></button>
+                                            <button onClick={() => onShowHistory(row)} disabled={awaitsSecondCoding(row)} title={awaitsSecondCoding(row) ? "Hidden until double-coded" : "Row history"} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-white disabled:opacity-30 disabled:pointer-events-none"><ClockIcon className="w-4 h-4"/></button>
+                                            <button onClick={() => onEdit(row)} disabled={awaitsSecondCoding(row)} title={awaitsSecondCoding(row) ? "Hidden until double-coded" : undefined} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-white disabled:opacity-30 disabled:pointer-events-none"><EditIcon className="w-4 h-4"/></button>
+                                            <button onClick={() => onDelete(row.rowKey)} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4"/></button>
                                         </div>
                                     </td>
                                 </tr>
@@ -583,221 +1751,1870 @@ const ResultsTable: React.FC<{
 
 // --- Views ---
 
-const KnowledgeBaseView = () => {
-    const [stats, setStats] = useState<Record<string, number>>({});
-    
-    const refreshStats = async () => {
-        const s = await getReferenceStats();
-        setStats(s);
-    };
+const IMPORT_ISSUE_STYLES: Record<string, { label: string; className: string }> = {
+    new: { label: 'New', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+    exists: { label: 'Exists', className: 'bg-slate-700 text-slate-400 border-slate-600' },
+    conflict: { label: 'Conflict', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' },
+    duplicate: { label: 'Duplicate', className: 'bg-slate-700 text-slate-400 border-slate-600' },
+    invalid: { label: 'Invalid', className: 'bg-red-500/10 text-red-400 border-red-500/20' },
+    missing: { label: 'Missing', className: 'bg-red-500/10 text-red-400 border-red-500/20' }
+};
 
-    useEffect(() => { refreshStats(); }, []);
+const DictionaryImportWizard: React.FC<{
+    fileName: string;
+    rows: RawDataRow[];
+    initialModule: ModuleType;
+    onClose: () => void;
+    onImported: () => void;
+}> = ({ fileName, rows, initialModule, onClose, onImported }) => {
+    const columns = useMemo(() => {
+        const keys = new Set<string>();
+        rows.forEach(r => Object.keys(r).forEach(k => { if (k !== 'rowKey') keys.add(k); }));
+        return Array.from(keys);
+    }, [rows]);
+    const [module, setModule] = useState<ModuleType>(initialModule);
+    const [mapping, setMapping] = useState<ReferenceColumnMapping>(() => guessReferenceMapping(columns));
+    const [items, setItems] = useState<ReferenceImportItem[] | null>(null);
+    const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+    const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+    const [filter, setFilter] = useState<string>('all');
+    const [busy, setBusy] = useState(false);
 
-    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, module: ModuleType) => {
-        if (!e.target.files?.[0]) return;
+    const counts = useMemo(() => (items || []).reduce((acc, item) => {
+        const key = item.issue || 'new';
+        acc[key] = (acc[key] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>), [items]);
+
+    const visibleItems = (items || []).filter(i => filter === 'all' || (i.issue || 'new') === filter).slice(0, 200);
+    const importCount = mode === 'replace'
+        ? (counts.new || 0) + (counts.exists || 0) + (counts.conflict || 0)
+        : (counts.new || 0) + (overwriteConflicts ? counts.conflict || 0 : 0);
+
+    const handleAnalyze = async () => {
+        setBusy(true);
         try {
-            const data = await parseDataFile(e.target.files[0]);
-            // Assume 1st column is Code, 2nd is Label, 3rd is Term (or heuristic)
-            const entries: ReferenceEntry[] = data.map(r => ({
-                id: crypto.randomUUID(),
-                module,
-                code: Object.values(r)[0],
-                label: Object.values(r)[1],
-                term: Object.values(r)[2] || Object.values(r)[1], // Fallback
-                source: 'upload',
-                addedAt: Date.now()
-            }));
-            await addReferenceEntries(entries);
-            await refreshStats();
-            alert(`Imported ${entries.length} entries into ${module}`);
+            setItems(await analyzeReferenceImport(rows, mapping, module));
+            setFilter('all');
+        } catch (err) {
+            console.error(err);
+            alert("Failed to check dictionary entries");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!items) return;
+        if (mode === 'replace' && !confirm(`Replace all ${module} entries in the knowledge base?`)) return;
+        setBusy(true);
+        try {
+            const imported = await applyReferenceImport(items, module, mode, overwriteConflicts);
+            alert(`Imported ${imported} entries into ${module}`);
+            onImported();
         } catch (err) {
             console.error(err);
             alert("Failed to import dictionary");
+        } finally {
+            setBusy(false);
         }
     };
 
+    const columnSelect = (key: keyof ReferenceColumnMapping, label: string, optional: boolean) => (
+        <div>
+            <label className="block text-sm font-semibold text-slate-300 mb-2">{label}</label>
+            <select 
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                value={mapping[key]}
+                onChange={(e) => { setMapping({ ...mapping, [key]: e.target.value }); setItems(null); }}
+            >
+                <option value="">{optional ? '-- None --' : '-- Select Column --'}</option>
+                {columns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+        </div>
+    );
+
     return (
-        <div className="p-8 max-w-6xl mx-auto space-y-8">
-            <div>
-                <h2 className="text-3xl font-bold text-white mb-2">Knowledge Base & Reference Files</h2>
-                <p className="text-slate-400">Manage local dictionaries. The app checks these first before calling online AI.</p>
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl space-y-6">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2"><UploadIcon className="w-5 h-5 text-blue-400" /> Import Dictionary</h3>
+                    <p className="text-slate-400 text-sm mt-1">{fileName} · {rows.length} rows</p>
+                </div>
+                <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">Cancel</button>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-                {(Object.values(ModuleType) as ModuleType[]).map(mod => (
-                    <div key={mod} className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-lg">
-                        <div className="text-xs uppercase font-bold text-slate-500 mb-2">{mod}</div>
-                        <div className="text-4xl font-bold text-white mb-1">{stats[mod] || 0}</div>
-                        <div className="text-xs text-slate-400 mb-4">Reference Entries</div>
-                        <div className="flex gap-2">
-                             <label className="flex-1 text-center px-3 py-2 bg-blue-600/10 hover:bg-blue-600/20 text-blue-400 text-xs font-bold rounded cursor-pointer border border-blue-600/20 transition-colors">
-                                Upload
-                                <input type="file" className="hidden" accept=".csv,.xlsx,.ods" onChange={(e) => handleFileUpload(e, mod)} />
-                             </label>
-                             <button 
-                                onClick={async () => { if(confirm('Clear all?')) { await clearReferenceData(mod); refreshStats(); }}}
-                                className="px-3 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 text-xs font-bold rounded border border-red-500/20"
-                             >
-                                Clear
-                             </button>
-                        </div>
-                    </div>
-                ))}
-            </div>
-            
-            <div className="bg-slate-800/50 rounded-xl p-8 border border-dashed border-slate-700 text-center">
-                 <UploadIcon className="w-12 h-12 text-slate-600 mx-auto mb-4" />
-                 <h3 className="text-lg font-bold text-white mb-2">Upload Reference Dictionary</h3>
-                 <p className="text-slate-400 text-sm max-w-md mx-auto mb-6">
-                    Upload a CSV or Excel file containing official codes and descriptions. 
-                    Structure: Column A (Code), Column B (Label), Column C (Search Terms).
-                 </p>
-                 <label className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg cursor-pointer font-bold shadow-lg transition-all">
-                    Select Reference File
-                    <input type="file" className="hidden" accept=".csv,.xlsx,.ods" onChange={(e) => handleFileUpload(e, ModuleType.ISCO08)} />
-                 </label>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div>
+                    <label className="block text-sm font-semibold text-slate-300 mb-2">Classification</label>
+                    <select 
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                        value={module}
+                        onChange={(e) => { setModule(e.target.value as ModuleType); setItems(null); }}
+                    >
+                        {getDictionaryModules().map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                </div>
+                {columnSelect('codeColumn', 'Code', false)}
+                {columnSelect('labelColumn', 'Label', true)}
+                {columnSelect('termColumn', 'Search Term', true)}
+                {columnSelect('descriptionColumn', 'Description', true)}
             </div>
-        </div>
-    );
-};
+            <p className="text-xs text-slate-500">When no term column is mapped, the label is used as the search term.</p>
 
-const DashboardView: React.FC<{ rows: ProcessedRow[] }> = ({ rows }) => {
-    // Real-time calculation of statistics
-    const totalRows = rows.length;
-    const codedRows = rows.filter(r => r.codingStatus === 'coded').length;
-    const completionRate = totalRows > 0 ? Math.round((codedRows / totalRows) * 100) : 0;
-    
-    // Confidence distribution
-    const confidenceStats = rows.reduce((acc, row) => {
-        if (row.codingStatus === 'coded' && row.result) {
-            const conf = row.result.confidence || 'Unknown';
+            {!items ? (
+                <div className="flex justify-end">
+                    <button 
+                        onClick={handleAnalyze}
+                        disabled={busy || !mapping.codeColumn || (!mapping.termColumn && !mapping.labelColumn)}
+                        className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-6 py-2.5 rounded-lg font-bold"
+                    >
+                        Check Entries <ArrowRightIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2">
+                        {['all', 'new', 'conflict', 'exists', 'duplicate', 'invalid', 'missing'].map(key => (
+                            <button 
+                                key={key}
+                                onClick={() => setFilter(key)}
+                                className={`px-3 py-1.5 rounded text-xs font-bold border ${filter === key ? 'bg-blue-600 text-white border-blue-500' : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-white'}`}
+                            >
+                                {key === 'all' ? 'All' : IMPORT_ISSUE_STYLES[key].label} ({key === 'all' ? items.length : counts[key] || 0})
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="overflow-x-auto border border-slate-700 rounded-lg max-h-96">
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-slate-900 text-slate-400 sticky top-0">
+                                <tr>
+                                    <th className="p-3">Term</th>
+                                    <th className="p-3">Code</th>
+                                    <th className="p-3">Label</th>
+                                    <th className="p-3">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-700/50">
+                                {visibleItems.map((item, i) => {
+                                    const style = IMPORT_ISSUE_STYLES[item.issue || 'new'];
+                                    return (
+                                        <tr key={i}>
+                                            <td className="p-3 text-white max-w-xs truncate" title={item.entry.term}>{item.entry.term || '-'}</td>
+                                            <td className="p-3 font-mono text-blue-300">{item.entry.code || '-'}</td>
+                                            <td className="p-3 text-slate-300 max-w-xs truncate" title={item.entry.label}>{item.entry.label || '-'}</td>
+                                            <td className="p-3">
+                                                <span className={`inline-flex px-2 py-0.5 rounded text-xs font-bold border ${style.className}`}>{style.label}</span>
+                                                {item.message && <div className="text-[10px] text-slate-500 mt-1">{item.message}</div>}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {visibleItems.length === 200 && <p className="text-xs text-slate-500">Showing the first 200 entries.</p>}
+
+                    <div className="flex flex-wrap items-center justify-between gap-4 pt-4 border-t border-slate-700">
+                        <div className="flex flex-wrap items-center gap-6 text-sm text-slate-300">
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-blue-500" /> Merge with existing
+                            </label>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-blue-500" /> Replace all {module} entries
+                            </label>
+                            {mode === 'merge' && (counts.conflict || 0) > 0 && (
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input type="checkbox" checked={overwriteConflicts} onChange={(e) => setOverwriteConflicts(e.target.checked)} className="accent-amber-500" /> 
+                                    Overwrite {counts.conflict} conflicting entries
+                                </label>
+                            )}
+                        </div>
+                        <button 
+                            onClick={handleImport}
+                            disabled={busy || importCount === 0}
+                            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-6 py-2.5 rounded-lg font-bold"
+                        >
+                            Import {importCount} Entries
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const KB_PAGE_SIZE = 50;
+
+const KnowledgeBrowser: React.FC<{ version: number; onChanged: () => void }> = ({ version, onChanged }) => {
+    const [module, setModule] = useState<ModuleType | ''>('');
+    const [source, setSource] = useState<ReferenceEntry['source'] | ''>('');
+    const [codePrefix, setCodePrefix] = useState('');
+    const [search, setSearch] = useState('');
+    const [page, setPage] = useState(1);
+    const [result, setResult] = useState<{ entries: ReferenceEntry[], total: number }>({ entries: [], total: 0 });
+    const [editing, setEditing] = useState<ReferenceEntry | null>(null);
+    const [conflicts, setConflicts] = useState<ReferenceConflict[]>([]);
+    const [showConflicts, setShowConflicts] = useState(false);
+
+    const load = async () => {
+        try {
+            setResult(await queryReferenceEntries({
+                module: module || undefined,
+                source: source || undefined,
+                codePrefix,
+                search,
+                offset: (page - 1) * KB_PAGE_SIZE,
+                limit: KB_PAGE_SIZE
+            }));
+            setConflicts(await findReferenceConflicts(module || undefined));
+        } catch (err) {
+            console.error("[Knowledge Base] Failed to load entries", err);
+        }
+    };
+
+    useEffect(() => { load(); }, [module, source, codePrefix, search, page, version]);
+
+    const totalPages = Math.max(1, Math.ceil(result.total / KB_PAGE_SIZE));
+
+    const afterChange = async () => {
+        await load();
+        onChanged();
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editing) return;
+        if (!editing.term.trim() || !editing.code.trim()) {
+            alert("Term and code are required");
+            return;
+        }
+        const validation = validateCodedResult({ code: editing.code, label: editing.label, confidence: 'Reference' }, editing.module, 1);
+        if (validation.error && !confirm(`${validation.error}. Save anyway?`)) return;
+        try {
+            await addReferenceEntries([{ ...editing, term: editing.term.trim(), code: validation.error ? editing.code.trim() : validation.result.code }]);
+            setEditing(null);
+            await afterChange();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to save entry");
+        }
+    };
+
+    const handleDelete = async (ids: string[]) => {
+        try {
+            await deleteReferenceEntries(ids);
+            await afterChange();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to delete entries");
+        }
+    };
+
+    // Keeps one entry per conflict and deletes the others
+    const resolveConflicts = (pick: (conflict: ReferenceConflict) => ReferenceEntry) => {
+        const losers = conflicts.flatMap(c => {
+            const keep = pick(c);
+            return c.entries.filter(e => e.id !== keep.id).map(e => e.id);
+        });
+        if (losers.length === 0) return;
+        if (!confirm(`Delete ${losers.length} conflicting entries?`)) return;
+        handleDelete(losers);
+    };
+
+    const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+
+    return (
+        <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-lg overflow-hidden">
+            <div className="p-4 border-b border-slate-700 flex flex-wrap items-center gap-3">
+                <h3 className="text-lg font-bold text-white flex items-center gap-2 mr-auto">
+                    <DatabaseIcon className="w-5 h-5 text-blue-400" /> Entries
+                    <span className="text-xs text-slate-500 font-normal">{result.total} found</span>
+                </h3>
+                <div className="relative">
+                    <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                    <input 
+                        className="bg-slate-900 border border-slate-700 rounded-lg pl-9 pr-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                        placeholder="Search terms or labels..."
+                        value={search}
+                        onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+                    />
+                </div>
+                <input 
+                    className="w-28 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="Code prefix"
+                    value={codePrefix}
+                    onChange={(e) => { setCodePrefix(e.target.value); setPage(1); }}
+                />
+                <select 
+                    value={module}
+                    onChange={(e) => { setModule(e.target.value as ModuleType | ''); setPage(1); }}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                    <option value="">All classifications</option>
+                    {CLASSIFICATIONS.map(({ id }) => <option key={id} value={id}>{id}</option>)}
+                </select>
+                <select 
+                    value={source}
+                    onChange={(e) => { setSource(e.target.value as ReferenceEntry['source'] | ''); setPage(1); }}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                    <option value="">All sources</option>
+                    <option value="upload">Uploaded</option>
+                    <option value="learned">Learned</option>
+                </select>
+                <button 
+                    onClick={() => setShowConflicts(!showConflicts)}
+                    className={`px-3 py-2 rounded-lg text-xs font-bold border ${conflicts.length > 0 ? 'bg-amber-500/10 text-amber-400 border-amber-500/20 hover:bg-amber-500/20' : 'bg-slate-900 text-slate-500 border-slate-700'}`}
+                >
+                    {showConflicts ? 'Show Entries' : `Conflicts (${conflicts.length})`}
+                </button>
+            </div>
+
+            {showConflicts ? (
+                <div className="p-4 space-y-4">
+                    {conflicts.length === 0 ? (
+                        <p className="text-slate-500 text-sm text-center py-8">No terms map to more than one code.</p>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <span className="text-slate-400 mr-2">Resolve all {conflicts.length}:</span>
+                                <button 
+                                    onClick={() => resolveConflicts(c => c.entries[0])}
+                                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded"
+                                >
+                                    Keep most recent
+                                </button>
+                                <button 
+                                    onClick={() => resolveConflicts(c => c.entries.find(e => e.source === 'upload') || c.entries[0])}
+                                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded"
+                                >
+                                    Prefer uploaded dictionary
+                                </button>
+                                <button 
+                                    onClick={() => resolveConflicts(c => c.entries.find(e => e.source === 'learned' && e.status !== 'pending') || c.entries[0])}
+                                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded"
+                                >
+                                    Prefer approved corrections
+                                </button>
+                            </div>
+                            {conflicts.map(conflict => (
+                                <div key={`${conflict.module}-${conflict.entries[0].id}`} className="border border-slate-700 rounded-lg">
+                                    <div className="px-4 py-2 bg-slate-900/50 text-sm flex justify-between">
+                                        <span className="text-white font-medium">"{conflict.term}"</span>
+                                        <span className="text-xs text-slate-500 uppercase">{conflict.module}</span>
+                                    </div>
+                                    {conflict.entries.map(entry => (
+                                        <div key={entry.id} className="px-4 py-2 flex items-center gap-4 text-sm border-t border-slate-700/50">
+                                            <span className="font-mono text-blue-300 font-bold w-24">{entry.code}</span>
+                                            <span className="text-slate-300 flex-1 truncate" title={entry.label}>{entry.label}</span>
+                                            <span className="text-xs text-slate-500">{entry.source}{entry.status === 'pending' ? ' (pending)' : ''} · {new Date(entry.addedAt).toLocaleDateString()}</span>
+                                            <button 
+                                                onClick={() => handleDelete(conflict.entries.filter(e => e.id !== entry.id).map(e => e.id))}
+                                                className="px-2 py-1 text-emerald-400 hover:bg-emerald-500/10 rounded text-xs font-bold"
+                                            >
+                                                Keep
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            ) : (
+                <>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-slate-900/50 text-slate-400 font-medium">
+                                <tr>
+                                    <th className="p-3">Term</th>
+                                    <th className="p-3">Code</th>
+                                    <th className="p-3">Label</th>
+                                    <th className="p-3">Source</th>
+                                    <th className="p-3 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-700/50">
+                                {result.entries.map(entry => editing?.id === entry.id ? (
+                                    <tr key={entry.id} className="bg-blue-900/10">
+                                        <td className="p-2"><input className={inputClass} value={editing.term} onChange={(e) => setEditing({ ...editing, term: e.target.value })} /></td>
+                                        <td className="p-2"><input className={`${inputClass} font-mono w-28`} value={editing.code} onChange={(e) => setEditing({ ...editing, code: e.target.value })} /></td>
+                                        <td className="p-2"><input className={inputClass} value={editing.label} onChange={(e) => setEditing({ ...editing, label: e.target.value })} /></td>
+                                        <td className="p-2 text-xs text-slate-500">{entry.source}</td>
+                                        <td className="p-2 text-right whitespace-nowrap">
+                                            <button onClick={handleSaveEdit} className="px-2 py-1 text-emerald-400 hover:bg-emerald-500/10 rounded text-xs font-bold">Save</button>
+                                            <button onClick={() => setEditing(null)} className="px-2 py-1 text-slate-400 hover:text-white text-xs">Cancel</button>
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    <tr key={entry.id} className="hover:bg-slate-700/30">
+                                        <td className="p-3 text-white max-w-xs truncate" title={entry.term}>{entry.term}</td>
+                                        <td className="p-3 font-mono text-blue-300 font-bold">{entry.code}</td>
+                                        <td className="p-3 text-slate-300 max-w-xs truncate" title={entry.label}>{entry.label}</td>
+                                        <td className="p-3 text-xs text-slate-400">
+                                            {entry.source === 'learned' ? 'Learned' : 'Uploaded'}
+                                            {entry.status === 'pending' && <span className="ml-1 text-purple-300">(pending)</span>}
+                                            {!module && <div className="text-[10px] text-slate-600 uppercase">{entry.module}</div>}
+                                        </td>
+                                        <td className="p-3 text-right">
+                                            <div className="flex justify-end gap-2">
+                                                <button onClick={() => setEditing(entry)} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-white"><EditIcon className="w-4 h-4"/></button>
+                                                <button onClick={() => handleDelete([entry.id])} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4"/></button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {result.entries.length === 0 && (
+                                    <tr>
+                                        <td colSpan={5} className="p-8 text-center text-slate-500">No entries match the filters.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="p-4 border-t border-slate-700 flex justify-between items-center text-sm text-slate-400">
+                        <span>Page {page} of {totalPages}</span>
+                        <div className="flex gap-2">
+                            <button disabled={page === 1} onClick={() => setPage(p => p - 1)} className="px-3 py-1 bg-slate-700 rounded disabled:opacity-50 hover:bg-slate-600">Prev</button>
+                            <button disabled={page >= totalPages} onClick={() => setPage(p => p + 1)} className="px-3 py-1 bg-slate-700 rounded disabled:opacity-50 hover:bg-slate-600">Next</button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const KnowledgeBundlePanel: React.FC<{ coderName?: string; onImported: () => void }> = ({ coderName, onImported }) => {
+    const allModules = getDictionaryModules();
+    const [modules, setModules] = useState<ModuleType[]>(allModules);
+    const [format, setFormat] = useState<'json' | 'csv'>('json');
+    const [strategy, setStrategy] = useState<BundleMergeStrategy>('newest');
+    const [plan, setPlan] = useState<BundleImportPlan | null>(null);
+    const [acceptIncoming, setAcceptIncoming] = useState<Set<string>>(new Set());
+
+    const toggleModule = (m: ModuleType) => {
+        setModules(prev => prev.includes(m) ? prev.filter(x => x !== m) : [...prev, m]);
+    };
+
+    const handleExport = async () => {
+        try {
+            const count = await exportKnowledgeBundle(modules, format, coderName);
+            if (count === 0) alert("The selected classifications have no entries; an empty bundle was exported.");
+        } catch (err) {
+            console.error(err);
+            alert("Failed to export knowledge base");
+        }
+    };
+
+    const finishImport = async (importPlan: BundleImportPlan, accepted: Set<string>) => {
+        const imported = await applyBundleImport(importPlan, accepted);
+        const kept = importPlan.conflicts.length - accepted.size;
+        alert(`Imported ${imported} entries. ${importPlan.unchanged + kept} existing entries were kept.`);
+        setPlan(null);
+        onImported();
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const bundle = await readKnowledgeBundle(file);
+            const importPlan = await planBundleImport(bundle, strategy);
+            if (importPlan.conflicts.length > 0) {
+                // Ask the user; default to keeping what is already here
+                setAcceptIncoming(new Set());
+                setPlan(importPlan);
+                return;
+            }
+            await finishImport(importPlan, new Set());
+        } catch (err) {
+            console.error(err);
+            alert(`Failed to import bundle: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
+    const toggleAccept = (id: string) => {
+        const next = new Set(acceptIncoming);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setAcceptIncoming(next);
+    };
+
+    return (
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-lg space-y-6">
+            <div>
+                <h3 className="text-lg font-bold text-white flex items-center gap-2"><SaveIcon className="w-5 h-5 text-blue-400" /> Share & Back Up</h3>
+                <p className="text-xs text-slate-400 mt-1">Export dictionaries and learned corrections to a file colleagues can import, or keep it as a backup.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                    <div className="text-sm font-semibold text-slate-300">Export</div>
+                    <div className="flex flex-wrap gap-3">
+                        {allModules.map(m => (
+                            <label key={m} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                <input type="checkbox" checked={modules.includes(m)} onChange={() => toggleModule(m)} className="accent-blue-500" /> {m}
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <select 
+                            value={format}
+                            onChange={(e) => setFormat(e.target.value as 'json' | 'csv')}
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                            <option value="json">JSON bundle</option>
+                            <option value="csv">CSV</option>
+                        </select>
+                        <button 
+                            onClick={handleExport}
+                            disabled={modules.length === 0}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg"
+                        >
+                            <DownloadIcon className="w-4 h-4" /> Export
+                        </button>
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    <div className="text-sm font-semibold text-slate-300">Import</div>
+                    <select 
+                        value={strategy}
+                        onChange={(e) => setStrategy(e.target.value as BundleMergeStrategy)}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        <option value="newest">On conflict: keep the newest entry</option>
+                        <option value="upload-first">On conflict: prefer uploaded dictionaries over learned entries</option>
+                        <option value="prompt">On conflict: ask me</option>
+                    </select>
+                    <label className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg cursor-pointer">
+                        <UploadIcon className="w-4 h-4" /> Import Bundle
+                        <input type="file" className="hidden" accept=".json,.csv" onChange={handleImportFile} />
+                    </label>
+                </div>
+            </div>
+
+            {plan && (
+                <div className="border border-amber-500/30 rounded-lg overflow-hidden">
+                    <div className="px-4 py-3 bg-amber-500/10 flex flex-wrap items-center justify-between gap-3">
+                        <div className="text-sm text-amber-300 font-bold">
+                            {plan.conflicts.length} terms have a different code in the bundle. Tick the ones where the bundle should win.
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => setAcceptIncoming(new Set(plan.conflicts.map(c => c.incoming.id)))} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded">Use all from bundle</button>
+                            <button onClick={() => setAcceptIncoming(new Set())} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded">Keep all existing</button>
+                        </div>
+                    </div>
+                    <div className="max-h-80 overflow-y-auto divide-y divide-slate-700/50">
+                        {plan.conflicts.map(({ existing, incoming }) => (
+                            <label key={incoming.id} className="flex items-center gap-4 px-4 py-2 text-sm cursor-pointer hover:bg-slate-700/30">
+                                <input type="checkbox" checked={acceptIncoming.has(incoming.id)} onChange={() => toggleAccept(incoming.id)} className="accent-amber-500" />
+                                <span className="text-white flex-1 truncate" title={incoming.term}>{incoming.term}</span>
+                                <span className="font-mono text-slate-400 w-40 truncate" title={existing.label}>Here: {existing.code}</span>
+                                <span className="font-mono text-amber-300 w-40 truncate" title={incoming.label}>Bundle: {incoming.code}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <div className="px-4 py-3 flex justify-end gap-3 border-t border-slate-700">
+                        <button onClick={() => setPlan(null)} className="px-4 py-2 text-slate-300 hover:text-white text-sm">Cancel</button>
+                        <button 
+                            onClick={() => finishImport(plan, acceptIncoming).catch(err => { console.error(err); alert("Failed to import bundle"); })}
+                            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold rounded-lg"
+                        >
+                            Import {plan.toAdd.length + acceptIncoming.size} Entries
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const KnowledgeBaseView: React.FC<{ settings: AISettings }> = ({ settings }) => {
+    const coderName = settings.coderName;
+    const [stats, setStats] = useState<Record<string, number>>({});
+    const [indexing, setIndexing] = useState<{ module: ModuleType, done: number, total: number } | null>(null);
+    const [pending, setPending] = useState<ReferenceEntry[]>([]);
+    const [importFile, setImportFile] = useState<{ fileName: string, rows: RawDataRow[], module: ModuleType } | null>(null);
+    const [version, setVersion] = useState(0); // Bumped after changes so the browser reloads
+    
+    const refreshStats = async () => {
+        const s = await getReferenceStats();
+        setStats(s);
+        setPending(await getPendingEntries());
+        setVersion(v => v + 1);
+    };
+
+    const handleReview = async (ids: string[], approve: boolean) => {
+        try {
+            if (approve) await approveReferenceEntries(ids);
+            else await deleteReferenceEntries(ids);
+            await refreshStats();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to update learned entries");
+        }
+    };
+
+    useEffect(() => { refreshStats(); }, []);
+
+    const handleBuildIndex = async (module: ModuleType) => {
+        setIndexing({ module, done: 0, total: 0 });
+        try {
+            const embedded = await buildVectorIndex(module, settings, (done, total) => setIndexing({ module, done, total }));
+            alert(embedded > 0 ? `Embedded ${embedded} entries for ${module}` : `${module} index is already up to date`);
+        } catch (err) {
+            console.error(err);
+            alert(`Failed to build semantic index: ${err instanceof Error ? err.message : err}`);
+        } finally {
+            setIndexing(null);
+        }
+    };
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, module: ModuleType) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const rows = await parseDataFile(file);
+            if (rows.length === 0) {
+                alert("The file contains no rows");
+                return;
+            }
+            setImportFile({ fileName: file.name, rows, module });
+        } catch (err) {
+            console.error(err);
+            alert("Failed to read dictionary file");
+        }
+    };
+
+    return (
+        <div className="p-8 max-w-6xl mx-auto space-y-8">
+            <div>
+                <h2 className="text-3xl font-bold text-white mb-2">Knowledge Base & Reference Files</h2>
+                <p className="text-slate-400">Manage local dictionaries. The app checks these first before calling online AI.</p>
+            </div>
+
+            {importFile && (
+                <DictionaryImportWizard 
+                    fileName={importFile.fileName}
+                    rows={importFile.rows}
+                    initialModule={importFile.module}
+                    onClose={() => setImportFile(null)}
+                    onImported={() => { setImportFile(null); refreshStats(); }}
+                />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                {getDictionaryModules().map(mod => (
+                    <div key={mod} className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-lg">
+                        <div className="text-xs uppercase font-bold text-slate-500 mb-2">{mod}</div>
+                        <div className="text-4xl font-bold text-white mb-1">{stats[mod] || 0}</div>
+                        <div className="text-xs text-slate-400 mb-4">Reference Entries</div>
+                        <div className="flex gap-2">
+                             <label className="flex-1 text-center px-3 py-2 bg-blue-600/10 hover:bg-blue-600/20 text-blue-400 text-xs font-bold rounded cursor-pointer border border-blue-600/20 transition-colors">
+                                Upload
+                                <input type="file" className="hidden" accept=".csv,.xlsx,.ods" onChange={(e) => handleFileUpload(e, mod)} />
+                             </label>
+                             <button 
+                                onClick={async () => { if(confirm('Clear all?')) { await clearReferenceData(mod); refreshStats(); }}}
+                                className="px-3 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 text-xs font-bold rounded border border-red-500/20"
+                             >
+                                Clear
+                             </button>
+                        </div>
+                        {getRetrievalSettings(settings).semantic && (
+                            <button 
+                                onClick={() => handleBuildIndex(mod)}
+                                disabled={indexing !== null || !stats[mod]}
+                                className="w-full mt-2 px-3 py-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 text-xs font-bold rounded border border-purple-500/20 disabled:opacity-50"
+                            >
+                                {indexing?.module === mod 
+                                    ? `Embedding ${indexing.done}/${indexing.total}...` 
+                                    : 'Build Semantic Index'}
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {pending.length > 0 && (
+                <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-lg overflow-hidden">
+                    <div className="flex items-center justify-between p-4 border-b border-slate-700">
+                        <div>
+                            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                                <SparklesIcon className="w-5 h-5 text-purple-400" /> Learned Entries Awaiting Review
+                                <span className="text-xs bg-purple-500/20 text-purple-300 px-2 py-0.5 rounded-full">{pending.length}</span>
+                            </h3>
+                            <p className="text-xs text-slate-400 mt-1">Corrections from coding sessions. Approved entries are used for auto-coding.</p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button 
+                                onClick={() => handleReview(pending.map(e => e.id), true)}
+                                className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 text-xs font-bold rounded border border-emerald-500/20"
+                            >
+                                Approve All
+                            </button>
+                            <button 
+                                onClick={() => { if (confirm(`Reject all ${pending.length} pending entries?`)) handleReview(pending.map(e => e.id), false); }}
+                                className="px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-400 text-xs font-bold rounded border border-red-500/20"
+                            >
+                                Reject All
+                            </button>
+                        </div>
+                    </div>
+                    <div className="overflow-x-auto max-h-[480px]">
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-slate-900/50 text-slate-400 font-medium sticky top-0">
+                                <tr>
+                                    <th className="p-3">Term</th>
+                                    <th className="p-3">Code</th>
+                                    <th className="p-3">AI Code</th>
+                                    <th className="p-3">Coder</th>
+                                    <th className="p-3">Session</th>
+                                    <th className="p-3 text-right">Review</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-700/50">
+                                {pending.map(entry => (
+                                    <tr key={entry.id} className="hover:bg-slate-700/30">
+                                        <td className="p-3 text-white max-w-xs truncate" title={entry.term}>{entry.term}</td>
+                                        <td className="p-3">
+                                            <div className="font-mono text-blue-300 font-bold">{entry.code}</div>
+                                            <div className="text-xs text-slate-500 truncate max-w-xs" title={entry.label}>{entry.label}</div>
+                                            <div className="text-[10px] text-slate-600 uppercase">{entry.module}</div>
+                                        </td>
+                                        <td className="p-3 font-mono text-xs text-slate-400">
+                                            {entry.provenance?.originalCode 
+                                                ? <span className={entry.provenance.originalCode !== entry.code ? 'line-through text-red-400/70' : ''}>{entry.provenance.originalCode}</span> 
+                                                : '-'}
+                                            {entry.provenance?.originalConfidence && <div className="text-[10px] font-sans text-slate-600">{entry.provenance.originalConfidence}</div>}
+                                        </td>
+                                        <td className="p-3 text-slate-300 text-xs">{entry.provenance?.coder || <span className="text-slate-600">Unknown</span>}</td>
+                                        <td className="p-3 text-slate-400 text-xs">
+                                            <div className="truncate max-w-[12rem]" title={entry.provenance?.sessionName}>{entry.provenance?.sessionName || '-'}</div>
+                                            <div className="text-slate-600">{new Date(entry.provenance?.learnedAt || entry.addedAt).toLocaleString()}</div>
+                                        </td>
+                                        <td className="p-3 text-right whitespace-nowrap">
+                                            <button onClick={() => handleReview([entry.id], true)} className="px-2 py-1 text-emerald-400 hover:bg-emerald-500/10 rounded text-xs font-bold">Approve</button>
+                                            <button onClick={() => handleReview([entry.id], false)} className="px-2 py-1 text-red-400 hover:bg-red-500/10 rounded text-xs font-bold">Reject</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+            
+            <KnowledgeBundlePanel coderName={coderName} onImported={refreshStats} />
+
+            <KnowledgeBrowser version={version} onChanged={async () => { setStats(await getReferenceStats()); setPending(await getPendingEntries()); }} />
+            
+            <div className="bg-slate-800/50 rounded-xl p-8 border border-dashed border-slate-700 text-center">
+                 <UploadIcon className="w-12 h-12 text-slate-600 mx-auto mb-4" />
+                 <h3 className="text-lg font-bold text-white mb-2">Upload Reference Dictionary</h3>
+                 <p className="text-slate-400 text-sm max-w-md mx-auto mb-6">
+                    Upload a CSV or Excel file containing official codes and descriptions. 
+                    You can map the code, label, search term and description columns and preview the entries before importing.
+                 </p>
+                 <label className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg cursor-pointer font-bold shadow-lg transition-all">
+                    Select Reference File
+                    <input type="file" className="hidden" accept=".csv,.xlsx,.ods" onChange={(e) => handleFileUpload(e, ModuleType.ISCO08)} />
+                 </label>
+            </div>
+        </div>
+    );
+};
+
+const DashboardView: React.FC<{ rows: ProcessedRow[] }> = ({ rows }) => {
+    // Real-time calculation of statistics
+    const totalRows = rows.length;
+    const codedRows = rows.filter(r => r.codingStatus === 'coded').length;
+    const completionRate = totalRows > 0 ? Math.round((codedRows / totalRows) * 100) : 0;
+
+    // Deduplication: identical inputs are coded once and the result is reused
+    const uniqueInputs = new Set(rows.map(getInputKey)).size;
+    const callsSaved = rows.filter(r => r.sharedFrom && r.result?.confidence !== 'Reference').length;
+    
+    // Confidence distribution
+    const confidenceStats = rows.reduce((acc, row) => {
+        if (row.codingStatus === 'coded' && row.result) {
+            const conf = row.result.confidence || 'Unknown';
             acc[conf] = (acc[conf] || 0) + 1;
         }
-        return acc;
-    }, {} as Record<string, number>);
+        return acc;
+    }, {} as Record<string, number>);
+
+    // Top Codes
+    // Dual-coded rows count towards their ISCO and their ISIC code
+    const codeStats = rows.reduce((acc, row) => {
+         if (row.codingStatus === 'coded' && row.result?.code) {
+             const codes = row.result.dual 
+                 ? DUAL_PARTS.map(({ part, name }) => `${name} ${row.result!.dual![part].code}`) 
+                 : [row.result.code];
+             codes.forEach(code => { acc[code] = (acc[code] || 0) + 1; });
+         }
+         return acc;
+    }, {} as Record<string, number>);
+
+    const topCodes = Object.entries(codeStats)
+        .sort(([,a], [,b]) => b - a)
+        .slice(0, 5);
+
+    // Ensemble runs only
+    const agreementByCode = summarizeAgreement(rows);
+    const reviewRows = rows.filter(r => r.reviewState === 'needs-review' && r.result?.ensemble).length;
+
+    return (
+        <div className="p-8 max-w-6xl mx-auto space-y-8">
+            <h2 className="text-3xl font-bold text-white mb-6">Analytics Dashboard</h2>
+            
+            {/* KPI Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+                    <div className="text-slate-400 text-sm font-bold uppercase mb-2">Total Records</div>
+                    <div className="text-4xl font-bold text-white">{totalRows}</div>
+                    <div className="text-xs text-slate-500 mt-2">Loaded from dataset</div>
+                </div>
+                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+                    <div className="text-slate-400 text-sm font-bold uppercase mb-2">Completion Rate</div>
+                    <div className="text-4xl font-bold text-blue-400">{completionRate}%</div>
+                    <div className="w-full bg-slate-700 h-1.5 rounded-full mt-3">
+                        <div className="bg-blue-500 h-1.5 rounded-full" style={{ width: `${completionRate}%` }}></div>
+                    </div>
+                </div>
+                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+                    <div className="text-slate-400 text-sm font-bold uppercase mb-2">Processed</div>
+                    <div className="text-4xl font-bold text-emerald-400">{codedRows}</div>
+                    <div className="text-xs text-slate-500 mt-2">Automatically or Manually Coded</div>
+                </div>
+                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+                    <div className="text-slate-400 text-sm font-bold uppercase mb-2">Unique Inputs</div>
+                    <div className="text-4xl font-bold text-purple-400">{uniqueInputs}</div>
+                    <div className="text-xs text-slate-500 mt-2">{callsSaved} AI calls saved by deduplication</div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Confidence Distribution */}
+                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+                    <h3 className="text-lg font-bold text-white mb-6 flex items-center gap-2">
+                        <PieChartIcon className="w-5 h-5 text-purple-400" /> Confidence Distribution
+                    </h3>
+                    <div className="space-y-4">
+                        {['High', 'Medium', 'Low', 'Manual', 'Reference'].map(conf => {
+                            const count = confidenceStats[conf] || 0;
+                            const pct = codedRows > 0 ? (count / codedRows) * 100 : 0;
+                            const color = 
+                                conf === 'High' || conf === 'Reference' ? 'bg-emerald-500' :
+                                conf === 'Medium' ? 'bg-amber-500' :
+                                conf === 'Manual' ? 'bg-blue-500' : 'bg-red-500';
+                            
+                            return (
+                                <div key={conf}>
+                                    <div className="flex justify-between text-sm mb-1">
+                                        <span className="text-slate-300">{conf}</span>
+                                        <span className="text-slate-400 font-mono">{count} ({Math.round(pct)}%)</span>
+                                    </div>
+                                    <div className="w-full bg-slate-700 h-2 rounded-full overflow-hidden">
+                                        <div className={`h-full ${color}`} style={{ width: `${pct}%` }}></div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* Top Codes */}
+                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+                    <h3 className="text-lg font-bold text-white mb-6 flex items-center gap-2">
+                        <BarChartIcon className="w-5 h-5 text-indigo-400" /> Top 5 Codes
+                    </h3>
+                    {topCodes.length > 0 ? (
+                        <div className="space-y-4">
+                            {topCodes.map(([code, count], idx) => {
+                                const max = topCodes[0][1];
+                                const width = (count / max) * 100;
+                                return (
+                                    <div key={code} className="flex items-center gap-3">
+                                        <div className="min-w-[3rem] text-right font-mono text-blue-300 font-bold text-sm whitespace-nowrap">{code}</div>
+                                        <div className="flex-1">
+                                            <div className="bg-indigo-600/50 h-6 rounded flex items-center px-2 text-xs text-white" style={{ width: `${width}%`, minWidth: '2rem' }}>
+                                                {count}
+                                            </div>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ) : (
+                        <div className="text-center text-slate-500 py-10">No coded data available yet.</div>
+                    )}
+                </div>
+            </div>
+
+            {agreementByCode.length > 0 && (
+                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
+                    <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+                        <BrainIcon className="w-5 h-5 text-amber-400" /> Model Agreement by Code
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">{reviewRows} rows with disagreeing models are waiting for review. Codes with the lowest agreement are listed first.</p>
+                    <div className="max-h-96 overflow-y-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-slate-400 uppercase text-xs font-bold">
+                                <tr>
+                                    <th className="py-2">Code</th>
+                                    <th className="py-2">Label</th>
+                                    <th className="py-2 text-right">Rows</th>
+                                    <th className="py-2 text-right">Unanimous</th>
+                                    <th className="py-2 w-48">Mean Agreement</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-700/50">
+                                {agreementByCode.map(entry => (
+                                    <tr key={entry.code}>
+                                        <td className="py-2 font-mono text-blue-300 whitespace-nowrap">{entry.code}</td>
+                                        <td className="py-2 text-slate-300 max-w-xs truncate" title={entry.label}>{entry.label}</td>
+                                        <td className="py-2 text-right text-slate-300">{entry.rows}</td>
+                                        <td className="py-2 text-right text-slate-300">{entry.unanimous}</td>
+                                        <td className="py-2 pl-4">
+                                            <div className="flex items-center gap-2">
+                                                <div className="flex-1 bg-slate-700 h-1.5 rounded-full">
+                                                    <div 
+                                                        className={`h-1.5 rounded-full ${entry.agreement === 1 ? 'bg-emerald-500' : entry.agreement > 0.5 ? 'bg-amber-500' : 'bg-red-500'}`} 
+                                                        style={{ width: `${entry.agreement * 100}%` }}
+                                                    ></div>
+                                                </div>
+                                                <span className="text-xs text-slate-400 w-10 text-right">{Math.round(entry.agreement * 100)}%</span>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const RoadmapView = () => (
+    <div className="p-8 text-slate-300">
+      <h2 className="text-2xl font-bold mb-4">Project Roadmap</h2>
+      <ul className="list-disc ml-6 space-y-2">
+          <li>Advanced RAG with Vector Database</li>
+          <li>Team Collaboration & Cloud Sync</li>
+          <li>API Endpoint for external integration</li>
+          <li>Multi-language Support</li>
+      </ul>
+    </div>
+);
+
+// Landis & Koch bands, the usual reading of kappa in coding quality reports
+const describeKappa = (kappa: number | null): string => {
+    if (kappa === null) return '-';
+    if (kappa < 0) return 'Poor';
+    if (kappa <= 0.2) return 'Slight';
+    if (kappa <= 0.4) return 'Fair';
+    if (kappa <= 0.6) return 'Moderate';
+    if (kappa <= 0.8) return 'Substantial';
+    return 'Almost perfect';
+};
+
+const DoubleCodingView: React.FC<{
+    rows: ProcessedRow[];
+    module: ModuleType;
+    settings: AISettings;
+    onDrawSample: (size: number) => void;
+    onSecondCode: (rowKey: string, decision: CoderDecision) => void;
+    onAdjudicate: (row: ProcessedRow, resolution: 'first' | 'second') => void;
+}> = ({ rows, module, settings, onDrawSample, onSecondCode, onAdjudicate }) => {
+    const [tab, setTab] = useState<'code' | 'agreement' | 'adjudicate'>('code');
+    const [sampleSize, setSampleSize] = useState(50);
+    const [coder, setCoder] = useState(settings.coderName || '');
+    const [draft, setDraft] = useState({ code: '', label: '' });
+
+    const sample = useMemo(() => rows.filter(r => r.doubleCoding), [rows]);
+    const remaining = sample.filter(awaitsSecondCoding);
+    const current = remaining[0];
+    const eligible = useMemo(() => rows.filter(r => r.codingStatus === 'coded' && r.result?.code && !r.sharedFrom).length, [rows]);
+    const disagreements = sample.filter(isDisagreement);
+    const levels = useMemo(() => 
+        module === ModuleType.DUAL ? [] : computeLevelAgreement(rows, module as SingleModule), 
+    [rows, module]);
+
+    useEffect(() => { setDraft({ code: '', label: '' }); }, [current?.rowKey]);
+
+    if (module === ModuleType.DUAL) {
+        return (
+            <div className="p-8 max-w-4xl mx-auto text-slate-400">
+                <h2 className="text-3xl font-bold text-white mb-2">Double Coding</h2>
+                Double coding compares one code per row. Code occupations (ISCO-08) and industries (ISIC Rev. 4) in separate sessions to measure agreement.
+            </div>
+        );
+    }
+
+    if (rows.length === 0) {
+        return (
+            <div className="p-8 max-w-4xl mx-auto text-slate-400">
+                <h2 className="text-3xl font-bold text-white mb-2">Double Coding</h2>
+                No session is open. Code a file or reopen a saved session, then draw a sample here.
+            </div>
+        );
+    }
+
+    const handleDraw = () => {
+        if (sample.some(r => r.doubleCoding!.second) && !confirm("Drawing a new sample discards the second codings made so far. Continue?")) return;
+        onDrawSample(sampleSize);
+        setTab('code');
+    };
+
+    const handleSaveSecond = () => {
+        if (!current) return;
+        if (!coder.trim()) {
+            alert("Enter the second coder's name first.");
+            return;
+        }
+        // Any level is accepted; agreement is measured at each level both codes reach
+        const { node, error } = validateCode(draft.code, module as SingleModule, 1);
+        if (!node || error) {
+            alert(error || "Enter a valid code.");
+            return;
+        }
+        onSecondCode(current.rowKey, { code: node.code, label: node.label || draft.label, coder: coder.trim(), codedAt: Date.now() });
+    };
 
-    // Top Codes
-    const codeStats = rows.reduce((acc, row) => {
-         if (row.codingStatus === 'coded' && row.result?.code) {
-             const code = row.result.code;
-             acc[code] = (acc[code] || 0) + 1;
-         }
-         return acc;
-    }, {} as Record<string, number>);
+    const tabClass = (t: typeof tab) => `px-4 py-2 text-sm font-medium rounded-lg ${tab === t ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`;
+
+    return (
+        <div className="p-8 max-w-6xl mx-auto space-y-8">
+            <div>
+                <h2 className="text-3xl font-bold text-white mb-2">Double Coding</h2>
+                <p className="text-slate-400">A random sample is coded a second time without showing the existing result. Agreement and Cohen's kappa are reported at every level of {getClassification(module).name}.</p>
+            </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-xl p-5 shadow-xl flex flex-wrap items-end gap-4">
+                <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Sample size</label>
+                    <input 
+                        type="number"
+                        min={1}
+                        max={eligible}
+                        value={sampleSize}
+                        onChange={(e) => setSampleSize(Math.max(1, Number(e.target.value) || 1))}
+                        className="w-28 bg-slate-900 border border-slate-600 rounded-lg p-2 text-white text-sm"
+                    />
+                </div>
+                <button 
+                    onClick={handleDraw}
+                    disabled={eligible === 0}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg flex items-center gap-2"
+                >
+                    <RefreshCwIcon className="w-4 h-4" /> {sample.length > 0 ? 'Draw New Sample' : 'Draw Sample'}
+                </button>
+                <div className="text-xs text-slate-500 pb-2">
+                    {eligible} coded rows available (rows reusing an identical input's result are excluded).
+                    {sample.length > 0 && ` Current sample: ${sample.length} rows, ${sample.length - remaining.length} double-coded.`}
+                </div>
+            </div>
+
+            {sample.length > 0 && (
+                <>
+                    <div className="flex gap-2">
+                        <button onClick={() => setTab('code')} className={tabClass('code')}>Blind Coding ({remaining.length} left)</button>
+                        <button onClick={() => setTab('agreement')} className={tabClass('agreement')}>Agreement</button>
+                        <button onClick={() => setTab('adjudicate')} className={tabClass('adjudicate')}>Adjudication ({disagreements.filter(r => !r.doubleCoding!.resolution).length})</button>
+                    </div>
+
+                    {tab === 'code' && (
+                        <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl max-w-2xl space-y-5">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Second coder</label>
+                                <input 
+                                    value={coder}
+                                    onChange={(e) => setCoder(e.target.value)}
+                                    placeholder="e.g. J. Smith"
+                                    className="w-full bg-slate-900 border border-slate-600 rounded-lg p-2.5 text-white text-sm"
+                                />
+                            </div>
+                            {current ? (
+                                <>
+                                    <div className="p-4 bg-slate-900/50 rounded border border-slate-700">
+                                        <div className="flex justify-between text-xs text-slate-500 uppercase font-bold mb-1">
+                                            <span>Row {sample.length - remaining.length + 1} of {sample.length}</span>
+                                            {current.sourceId && <span className="font-mono normal-case">ID {current.sourceId}</span>}
+                                        </div>
+                                        <div className="text-white text-lg">{current['primaryText']}</div>
+                                        <div className="text-slate-400 text-sm">{current['secondaryText']}</div>
+                                    </div>
+                                    <CodeEditor 
+                                        module={module}
+                                        code={draft.code}
+                                        label={draft.label}
+                                        onChange={(code, label) => setDraft({ code, label })}
+                                        settings={settings}
+                                    />
+                                    <div className="flex justify-end">
+                                        <button 
+                                            onClick={handleSaveSecond}
+                                            className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium flex items-center gap-2"
+                                        >
+                                            Save & Next <ArrowRightIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="text-emerald-400 flex items-center gap-2">
+                                    <CheckCircleIcon className="w-5 h-5" /> Every sampled row has been double-coded. See Agreement and Adjudication.
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {tab === 'agreement' && (
+                        <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-xl">
+                            <table className="w-full text-sm text-left">
+                                <thead className="bg-slate-900 text-slate-400 uppercase text-xs font-bold">
+                                    <tr>
+                                        <th className="p-4">Level</th>
+                                        <th className="p-4 text-right">Pairs</th>
+                                        <th className="p-4 text-right">Agreement</th>
+                                        <th className="p-4 text-right">Chance</th>
+                                        <th className="p-4 text-right">Kappa</th>
+                                        <th className="p-4">Strength</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-700/50">
+                                    {levels.map(l => (
+                                        <tr key={l.level}>
+                                            <td className="p-4 text-white">{l.name} <span className="text-xs text-slate-500">(level {l.level})</span></td>
+                                            <td className="p-4 text-right text-slate-300">{l.pairs}</td>
+                                            <td className="p-4 text-right text-slate-300">{l.pairs > 0 ? `${(l.observed * 100).toFixed(1)}%` : '-'}</td>
+                                            <td className="p-4 text-right text-slate-500">{l.pairs > 0 ? `${(l.expected * 100).toFixed(1)}%` : '-'}</td>
+                                            <td className="p-4 text-right font-mono text-blue-300">{l.kappa !== null ? l.kappa.toFixed(3) : '-'}</td>
+                                            <td className="p-4 text-slate-300">{describeKappa(l.kappa)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <div className="p-4 border-t border-slate-700 text-xs text-slate-500">
+                                First coding: {[...new Set(sample.map(r => r.doubleCoding!.first.coder))].join(', ')}.
+                                Second coding: {[...new Set(sample.map(r => r.doubleCoding!.second?.coder).filter(Boolean))].join(', ') || 'none yet'}.
+                                Rows coded at a coarser level only count towards the levels they reach.
+                            </div>
+                        </div>
+                    )}
+
+                    {tab === 'adjudicate' && (
+                        <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-xl">
+                            <table className="w-full text-sm text-left">
+                                <thead className="bg-slate-900 text-slate-400 uppercase text-xs font-bold">
+                                    <tr>
+                                        <th className="p-4">Input</th>
+                                        <th className="p-4">First Coding</th>
+                                        <th className="p-4">Second Coding</th>
+                                        <th className="p-4 text-right">Decision</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-700/50">
+                                    {disagreements.map(row => {
+                                        const { first, second, resolution } = row.doubleCoding!;
+                                        return (
+                                            <tr key={row.rowKey}>
+                                                <td className="p-4 max-w-xs">
+                                                    <div className="font-medium text-white truncate" title={row['primaryText']}>{row['primaryText']}</div>
+                                                    <div className="text-xs text-slate-500 truncate" title={row['secondaryText']}>{row['secondaryText']}</div>
+                                                </td>
+                                                {[first, second!].map((decision, i) => (
+                                                    <td key={i} className={`p-4 max-w-xs ${resolution === (i === 0 ? 'first' : 'second') ? 'bg-emerald-500/5' : ''}`}>
+                                                        <div className="font-mono text-blue-300 font-bold">{decision.code}</div>
+                                                        <div className="text-xs text-slate-300 truncate" title={decision.label}>{decision.label}</div>
+                                                        <div className="text-[10px] text-slate-500">{decision.coder}</div>
+                                                    </td>
+                                                ))}
+                                                <td className="p-4 text-right">
+                                                    <div className="flex justify-end gap-2">
+                                                        <button 
+                                                            onClick={() => onAdjudicate(row, 'first')}
+                                                            className={`px-3 py-1.5 text-xs font-bold rounded border ${resolution === 'first' ? 'bg-emerald-600/20 text-emerald-300 border-emerald-500/40' : 'bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600'}`}
+                                                        >
+                                                            Keep First
+                                                        </button>
+                                                        <button 
+                                                            onClick={() => onAdjudicate(row, 'second')}
+                                                            className={`px-3 py-1.5 text-xs font-bold rounded border ${resolution === 'second' ? 'bg-emerald-600/20 text-emerald-300 border-emerald-500/40' : 'bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600'}`}
+                                                        >
+                                                            Use Second
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                    {disagreements.length === 0 && (
+                                        <tr>
+                                            <td colSpan={4} className="p-8 text-center text-slate-500">No disagreements among the double-coded rows.</td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const EvaluationView: React.FC<{ settings: AISettings }> = ({ settings }) => {
+    const [module, setModule] = useState<SingleModule>(ModuleType.ISCO08);
+    const [fileName, setFileName] = useState('');
+    const [goldRows, setGoldRows] = useState<RawDataRow[]>([]);
+    const [goldMapping, setGoldMapping] = useState({ id: '', text: '', context: '', gold: '' });
+    const [rowLimit, setRowLimit] = useState(0);
+    const [useExamples, setUseExamples] = useState(false);
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [configs, setConfigs] = useState<EvaluationConfig[]>(() => [{ 
+        id: crypto.randomUUID(), provider: settings.provider, model: settings.model, apiKey: settings.apiKey, baseUrl: settings.baseUrl, promptId: '' 
+    }]);
+    const [runs, setRuns] = useState<{ report: EvaluationReport; predictions: EvaluationPrediction[] }[]>([]);
+    const [running, setRunning] = useState<{ config: string; done: number; total: number } | null>(null);
+    const stopRef = useRef(false);
+
+    const columns = goldRows.length > 0 ? Object.keys(goldRows[0]).filter(c => c !== 'rowKey') : [];
+
+    useEffect(() => {
+        getPromptTemplates(module)
+            .then(saved => setTemplates([...saved, getDefaultPromptTemplate(module)]))
+            .catch(err => console.error(err));
+    }, [module]);
+
+    const items = useMemo((): GoldItem[] => {
+        if (!goldMapping.text || !goldMapping.gold) return [];
+        const all = goldRows
+            .map((row, i) => ({
+                id: goldMapping.id ? String(row[goldMapping.id] ?? '') : String(i + 1),
+                primaryText: String(row[goldMapping.text] ?? '').trim(),
+                secondaryText: goldMapping.context ? String(row[goldMapping.context] ?? '').trim() : '',
+                goldCode: normalizeGoldCode(String(row[goldMapping.gold] ?? ''), module)
+            }))
+            .filter(item => item.primaryText && item.goldCode);
+        return rowLimit > 0 ? all.slice(0, rowLimit) : all;
+    }, [goldRows, goldMapping, module, rowLimit]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const rows = await parseDataFile(file);
+            if (rows.length === 0) {
+                alert("The file contains no rows.");
+                return;
+            }
+            const cols = Object.keys(rows[0]).filter(c => c !== 'rowKey');
+            const find = (pattern: RegExp) => cols.find(c => pattern.test(c)) || '';
+            setGoldRows(rows);
+            setFileName(file.name);
+            setGoldMapping({
+                id: find(/^id$/i),
+                text: find(/title|occupation|text|input/i) || cols[0],
+                context: find(/desc|context|duties/i),
+                gold: find(/code|gold/i)
+            });
+            setRuns([]);
+        } catch (err) {
+            console.error(err);
+            alert("Failed to read the gold file.");
+        }
+    };
+
+    const updateConfig = (id: string, patch: Partial<EvaluationConfig>) => 
+        setConfigs(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+
+    const handleRun = async () => {
+        const valid = configs.filter(c => c.model.trim());
+        if (items.length === 0 || valid.length === 0) {
+            alert("Map the text and gold code columns and configure at least one model.");
+            return;
+        }
+        stopRef.current = false;
+        const results: typeof runs = [];
+        try {
+            for (const config of valid) {
+                if (stopRef.current) break;
+                const template = templates.find(t => t.id === config.promptId) || await getActivePromptTemplate(module);
+                const name = getConfigName(config, template);
+                let done = 0;
+                setRunning({ config: name, done, total: items.length });
+                const predictions = await runEvaluation(items, module, settings, config, template, {
+                    getExamples: useExamples 
+                        ? (item) => retrieveExamples(item.primaryText, module, settings, getMatchSettings()) 
+                        : undefined,
+                    onPrediction: () => setRunning({ config: name, done: ++done, total: items.length }),
+                    shouldStop: () => stopRef.current
+                });
+                results.push({ report: buildEvaluationReport(items, predictions, module, name, template.id, config.pricePerMillionTokens), predictions });
+                setRuns([...results]);
+            }
+        } catch (err) {
+            console.error(err);
+            alert("Evaluation failed. Check Console for details.");
+        } finally {
+            setRunning(null);
+        }
+    };
+
+    const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+    return (
+        <div className="p-8 max-w-6xl mx-auto space-y-8">
+            <div>
+                <h2 className="text-3xl font-bold text-white mb-2">Evaluation</h2>
+                <p className="text-slate-400">Code a gold-standard file with one or more models and prompt versions, and compare accuracy, calibration, speed and cost before switching settings.</p>
+            </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl space-y-5">
+                <div className="flex flex-wrap items-end gap-4">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Classification</label>
+                        <select 
+                            value={module}
+                            onChange={(e) => { setModule(e.target.value as SingleModule); setRuns([]); }}
+                            className="bg-slate-900 border border-slate-600 rounded-lg p-2 text-white text-sm"
+                        >
+                            {getDictionaryModules().map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                    </div>
+                    <label className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg cursor-pointer">
+                        <UploadIcon className="w-4 h-4" /> {fileName ? 'Replace Gold File' : 'Load Gold File'}
+                        <input type="file" className="hidden" accept=".csv,.xlsx,.xls,.ods" onChange={handleFile} />
+                    </label>
+                    {fileName && <span className="text-sm text-slate-400 pb-2">{fileName} · {goldRows.length} rows</span>}
+                </div>
+
+                {columns.length > 0 && (
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                        {([
+                            ['text', 'Input text *'],
+                            ['context', 'Context'],
+                            ['gold', 'Gold code *'],
+                            ['id', 'ID']
+                        ] as [keyof typeof goldMapping, string][]).map(([key, label]) => (
+                            <div key={key}>
+                                <label className="block text-xs text-slate-500 mb-1">{label}</label>
+                                <select 
+                                    value={goldMapping[key]}
+                                    onChange={(e) => setGoldMapping({ ...goldMapping, [key]: e.target.value })}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded-lg p-2 text-white text-sm"
+                                >
+                                    <option value="">-- None --</option>
+                                    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                        <div>
+                            <label className="block text-xs text-slate-500 mb-1">Rows (0 = all)</label>
+                            <input 
+                                type="number"
+                                min={0}
+                                value={rowLimit}
+                                onChange={(e) => setRowLimit(Math.max(0, Number(e.target.value) || 0))}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg p-2 text-white text-sm"
+                            />
+                        </div>
+                    </div>
+                )}
+                {columns.length > 0 && <div className="text-xs text-slate-500">{items.length} gold items with text and code will be evaluated.</div>}
+            </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl space-y-3">
+                <h3 className="text-sm font-bold text-white flex items-center gap-2"><BrainIcon className="w-4 h-4 text-blue-400" /> Configurations</h3>
+                {configs.map(config => (
+                    <div key={config.id} className="flex flex-wrap gap-2 items-center p-3 bg-slate-900/50 border border-slate-700 rounded-lg">
+                        <select 
+                            value={config.provider}
+                            onChange={(e) => updateConfig(config.id, { provider: e.target.value as AIProvider })}
+                            className="bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm"
+                        >
+                            <option value={AIProvider.Gemini}>Gemini</option>
+                            <option value={AIProvider.OpenAI}>OpenAI</option>
+                            <option value={AIProvider.DeepSeek}>DeepSeek</option>
+                            <option value={AIProvider.Local}>Local</option>
+                        </select>
+                        <input 
+                            value={config.model}
+                            onChange={(e) => updateConfig(config.id, { model: e.target.value })}
+                            placeholder="Model"
+                            className="w-44 bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm"
+                        />
+                        {(config.provider === AIProvider.OpenAI || config.provider === AIProvider.DeepSeek) && (
+                            <input 
+                                type="password"
+                                value={config.apiKey || ''}
+                                onChange={(e) => updateConfig(config.id, { apiKey: e.target.value })}
+                                placeholder="API Key"
+                                className="w-40 bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm"
+                            />
+                        )}
+                        {config.provider === AIProvider.Local && (
+                            <input 
+                                value={config.baseUrl || ''}
+                                onChange={(e) => updateConfig(config.id, { baseUrl: e.target.value })}
+                                placeholder="http://localhost:11434/v1/chat/completions"
+                                className="flex-1 min-w-[12rem] bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm"
+                            />
+                        )}
+                        <select 
+                            value={config.promptId || ''}
+                            onChange={(e) => updateConfig(config.id, { promptId: e.target.value })}
+                            className="bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm"
+                        >
+                            <option value="">Active prompt</option>
+                            {templates.map(t => <option key={t.id} value={t.id}>v{t.version}{t.note ? ` · ${t.note}` : ''}</option>)}
+                        </select>
+                        <input 
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={config.pricePerMillionTokens ?? ''}
+                            onChange={(e) => updateConfig(config.id, { pricePerMillionTokens: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                            placeholder="$ / 1M tokens"
+                            title="Price per million tokens, for the cost estimate"
+                            className="w-32 bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm"
+                        />
+                        <button 
+                            onClick={() => setConfigs(prev => prev.filter(c => c.id !== config.id))}
+                            disabled={configs.length === 1}
+                            className="p-2 hover:bg-slate-700 rounded text-slate-400 hover:text-red-400 disabled:opacity-30"
+                            title="Remove configuration"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                <div className="flex flex-wrap items-center gap-4">
+                    <button 
+                        onClick={() => setConfigs(prev => [...prev, { id: crypto.randomUUID(), provider: AIProvider.Local, model: '', promptId: '' }])}
+                        className="px-3 py-2 border border-dashed border-slate-600 hover:border-slate-400 rounded-lg text-sm text-slate-400 hover:text-white"
+                    >
+                        + Add Configuration
+                    </button>
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input 
+                            type="checkbox"
+                            checked={useExamples}
+                            onChange={(e) => setUseExamples(e.target.checked)}
+                            className="rounded border-slate-600 bg-slate-900"
+                        />
+                        Include knowledge base examples
+                    </label>
+                    <div className="flex-1" />
+                    {running ? (
+                        <button onClick={() => { stopRef.current = true; }} className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-300 text-sm font-bold rounded-lg border border-red-500/30">
+                            Stop ({running.config}: {running.done}/{running.total})
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleRun}
+                            disabled={items.length === 0}
+                            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg flex items-center gap-2"
+                        >
+                            <ZapIcon className="w-4 h-4" /> Run Evaluation
+                        </button>
+                    )}
+                </div>
+                <p className="text-xs text-slate-500">Throughput limits come from AI Engine Settings for each provider. Keep knowledge base examples off if the gold file was imported into the knowledge base, or the models will see the answers.</p>
+            </div>
+
+            {runs.length > 0 && (
+                <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-xl">
+                    <div className="p-4 flex justify-between items-center border-b border-slate-700">
+                        <h3 className="text-sm font-bold text-white flex items-center gap-2"><BarChartIcon className="w-4 h-4 text-emerald-400" /> Comparison</h3>
+                        <button 
+                            onClick={() => exportEvaluationReport(runs, items, `evaluation_${module.replace(/[^A-Za-z0-9]+/g, '_')}_${new Date().toISOString().slice(0, 10)}`)}
+                            className="px-3 py-1.5 bg-emerald-600/10 hover:bg-emerald-600/20 text-emerald-400 text-xs font-bold rounded border border-emerald-600/20 flex items-center gap-1.5"
+                        >
+                            <DownloadIcon className="w-3 h-3" /> Download Comparison
+                        </button>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-slate-900 text-slate-400 text-xs font-bold">
+                                <tr>
+                                    <th className="p-3 uppercase">Metric</th>
+                                    {runs.map(({ report }) => <th key={report.name} className="p-3 font-mono">{report.name}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-700/50">
+                                {runs[0].report.accuracy.map((level, i) => (
+                                    <tr key={level.level}>
+                                        <td className="p-3 text-slate-300">Accuracy · {level.name}</td>
+                                        {runs.map(({ report }) => (
+                                            <td key={report.name} className="p-3 text-white">
+                                                {percent(report.accuracy[i].rate)} <span className="text-xs text-slate-500">({report.accuracy[i].correct}/{report.accuracy[i].total})</span>
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                                {runs[0].report.calibration.map((group, i) => (
+                                    <tr key={group.confidence}>
+                                        <td className="p-3 text-slate-300">Accuracy when {group.confidence}</td>
+                                        {runs.map(({ report }) => (
+                                            <td key={report.name} className="p-3 text-slate-300">
+                                                {report.calibration[i].count > 0 ? percent(report.calibration[i].rate) : '-'} <span className="text-xs text-slate-500">of {report.calibration[i].count}</span>
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                                <tr>
+                                    <td className="p-3 text-slate-300">Failed rows</td>
+                                    {runs.map(({ report }) => <td key={report.name} className="p-3 text-slate-300">{report.errors} of {report.items}</td>)}
+                                </tr>
+                                <tr>
+                                    <td className="p-3 text-slate-300">Latency per row (mean / p95)</td>
+                                    {runs.map(({ report }) => <td key={report.name} className="p-3 text-slate-300">{(report.meanLatencyMs / 1000).toFixed(2)}s / {(report.p95LatencyMs / 1000).toFixed(2)}s</td>)}
+                                </tr>
+                                <tr>
+                                    <td className="p-3 text-slate-300">Estimated tokens per row</td>
+                                    {runs.map(({ report }) => <td key={report.name} className="p-3 text-slate-300">{Math.round(report.meanTokens)}</td>)}
+                                </tr>
+                                <tr>
+                                    <td className="p-3 text-slate-300">Estimated cost per 1,000 rows</td>
+                                    {runs.map(({ report }) => <td key={report.name} className="p-3 text-slate-300">{report.costPer1000Rows === null ? <span className="text-slate-500">No price set</span> : `$${report.costPer1000Rows.toFixed(2)}`}</td>)}
+                                </tr>
+                                <tr>
+                                    <td className="p-3 text-slate-300 align-top">Top errors (gold → predicted)</td>
+                                    {runs.map(({ report }) => (
+                                        <td key={report.name} className="p-3 align-top">
+                                            {report.topErrors.length === 0 && <span className="text-slate-500">None</span>}
+                                            {report.topErrors.map(e => (
+                                                <div key={`${e.gold}|${e.predicted}`} className="font-mono text-xs text-slate-300">
+                                                    {e.gold} → <span className="text-red-300">{e.predicted}</span> <span className="text-slate-500">×{e.count}</span>
+                                                </div>
+                                            ))}
+                                        </td>
+                                    ))}
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SessionsView: React.FC<{
+    currentSessionId: string | null;
+    onOpen: (id: string) => void;
+    onDeleted: (id: string) => void;
+}> = ({ currentSessionId, onOpen, onDeleted }) => {
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const refreshSessions = async () => {
+        try {
+            setSessions(await listSessions());
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    useEffect(() => { refreshSessions(); }, []);
+
+    const handleRename = async (id: string) => {
+        const name = draftName.trim();
+        setRenamingId(null);
+        if (!name) return;
+        await renameSession(id, name);
+        await refreshSessions();
+    };
+
+    const handleDelete = async (session: SessionSummary) => {
+        if (!confirm(`Delete session "${session.name}"? This cannot be undone.`)) return;
+        await deleteSession(session.id);
+        onDeleted(session.id);
+        await refreshSessions();
+    };
+
+    return (
+        <div className="p-8 max-w-6xl mx-auto space-y-8">
+            <div>
+                <h2 className="text-3xl font-bold text-white mb-2">Saved Sessions</h2>
+                <p className="text-slate-400">Sessions are saved automatically while you code. Reopen one to continue from the first pending row.</p>
+            </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-xl">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-900 text-slate-400 uppercase text-xs font-bold">
+                        <tr>
+                            <th className="p-4">Name</th>
+                            <th className="p-4">Module</th>
+                            <th className="p-4">Progress</th>
+                            <th className="p-4">Last Saved</th>
+                            <th className="p-4 text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700/50">
+                        {sessions.map(session => {
+                            const pct = session.totalRows > 0 ? Math.round((session.codedRows / session.totalRows) * 100) : 0;
+                            return (
+                                <tr key={session.id} className={`hover:bg-slate-700/30 transition-colors ${session.id === currentSessionId ? 'bg-blue-900/10' : ''}`}>
+                                    <td className="p-4">
+                                        {renamingId === session.id ? (
+                                            <input
+                                                autoFocus
+                                                className="w-full bg-slate-900 border border-slate-600 rounded p-1.5 text-white"
+                                                value={draftName}
+                                                onChange={(e) => setDraftName(e.target.value)}
+                                                onBlur={() => handleRename(session.id)}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') handleRename(session.id);
+                                                    if (e.key === 'Escape') setRenamingId(null);
+                                                }}
+                                            />
+                                        ) : (
+                                            <div className="font-medium text-white">
+                                                {session.name}
+                                                {session.id === currentSessionId && <span className="ml-2 text-[10px] bg-blue-500/20 text-blue-300 px-1.5 py-0.5 rounded">OPEN</span>}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="p-4 text-slate-300">{session.module}</td>
+                                    <td className="p-4 w-48">
+                                        <div className="text-xs text-slate-400 mb-1">{session.codedRows} / {session.totalRows} rows</div>
+                                        <div className="w-full bg-slate-700 h-1.5 rounded-full">
+                                            <div className="bg-blue-500 h-1.5 rounded-full" style={{ width: `${pct}%` }}></div>
+                                        </div>
+                                    </td>
+                                    <td className="p-4 text-slate-400 text-xs">{new Date(session.updatedAt).toLocaleString()}</td>
+                                    <td className="p-4 text-right">
+                                        <div className="flex justify-end gap-2">
+                                            <button onClick={() => onOpen(session.id)} className="px-3 py-1.5 bg-blue-600/10 hover:bg-blue-600/20 text-blue-400 text-xs font-bold rounded border border-blue-600/20">Open</button>
+                                            <button onClick={() => { setRenamingId(session.id); setDraftName(session.name); }} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-white"><EditIcon className="w-4 h-4"/></button>
+                                            <button onClick={() => handleDelete(session)} className="p-1.5 hover:bg-slate-600 rounded text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4"/></button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {sessions.length === 0 && (
+                            <tr>
+                                <td colSpan={5} className="p-8 text-center text-slate-500">No saved sessions yet. Upload a file to start one.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+type PromptDraft = Pick<PromptTemplate, 'system' | 'instructions' | 'task' | 'rules'>;
+
+const PROMPT_FIELDS: { key: keyof PromptDraft; label: string; rows: number; hint: string }[] = [
+    { key: 'system', label: 'System Instruction', rows: 3, hint: 'Expert role given to the model.' },
+    { key: 'instructions', label: 'Instructions', rows: 8, hint: 'Protocol sent with every request. Keep {examples}, {levels} and {rules} where they should appear.' },
+    { key: 'task', label: 'Task', rows: 4, hint: 'Per-row task. Uses {primary}, {secondary} and {tertiary}. In batched runs an edited task is sent with every item.' },
+    { key: 'rules', label: 'Coding Rules', rows: 5, hint: 'One rule per line, e.g. "Code \'manager\' without a sector to 1 if unsure."' }
+];
+
+const toPromptDraft = (template: PromptTemplate): PromptDraft => ({
+    system: template.system,
+    instructions: template.instructions,
+    task: template.task,
+    rules: template.rules
+});
+
+const PromptTemplatesView: React.FC<{ coderName?: string }> = ({ coderName }) => {
+    const [module, setModule] = useState<ModuleType>(ModuleType.ISCO08);
+    const [versions, setVersions] = useState<PromptTemplate[]>([]);
+    const [draft, setDraft] = useState<PromptDraft>(() => toPromptDraft(getDefaultPromptTemplate(ModuleType.ISCO08)));
+    const [note, setNote] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const defaultTemplate = useMemo(() => getDefaultPromptTemplate(module), [module]);
+    const active = versions[0] || defaultTemplate;
+    const isDirty = PROMPT_FIELDS.some(({ key }) => draft[key] !== active[key]);
+
+    const loadVersions = async (m: ModuleType) => {
+        try {
+            const saved = await getPromptTemplates(m);
+            setVersions(saved);
+            setDraft(toPromptDraft(saved[0] || getDefaultPromptTemplate(m)));
+            setNote('');
+        } catch (err) {
+            console.error(err);
+            alert("Failed to load prompt templates.");
+        }
+    };
+
+    useEffect(() => { loadVersions(module); }, [module]);
 
-    const topCodes = Object.entries(codeStats)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 5);
+    const handleSave = async () => {
+        if (!draft.task.includes('{primary}')) {
+            if (!confirm("The task does not use {primary}, so rows will not be sent to the model. Save anyway?")) return;
+        }
+        setIsSaving(true);
+        try {
+            await savePromptTemplate(module, { ...draft, note: note.trim() || undefined }, coderName || undefined);
+            await loadVersions(module);
+        } catch (err) {
+            console.error(err);
+            alert("Failed to save prompt template.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Sample render so placeholders and rules can be checked before saving
+    const preview = useMemo(() => {
+        const template = { ...defaultTemplate, ...draft };
+        const fields = getClassification(module).fields;
+        return [
+            template.system,
+            renderInstructions(template, {
+                examples: '\n  [Similar knowledge base entries]\n',
+                levels: '\n  [Allowed hierarchy levels]\n'
+            }),
+            renderTask(template, {
+                primary: `[${fields.primary}]`,
+                secondary: `[${fields.secondary}]`,
+                tertiary: fields.tertiary ? `[${fields.tertiary}]` : ''
+            })
+        ].join('\n\n');
+    }, [draft, module, defaultTemplate]);
 
     return (
         <div className="p-8 max-w-6xl mx-auto space-y-8">
-            <h2 className="text-3xl font-bold text-white mb-6">Analytics Dashboard</h2>
-            
-            {/* KPI Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
-                    <div className="text-slate-400 text-sm font-bold uppercase mb-2">Total Records</div>
-                    <div className="text-4xl font-bold text-white">{totalRows}</div>
-                    <div className="text-xs text-slate-500 mt-2">Loaded from dataset</div>
-                </div>
-                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
-                    <div className="text-slate-400 text-sm font-bold uppercase mb-2">Completion Rate</div>
-                    <div className="text-4xl font-bold text-blue-400">{completionRate}%</div>
-                    <div className="w-full bg-slate-700 h-1.5 rounded-full mt-3">
-                        <div className="bg-blue-500 h-1.5 rounded-full" style={{ width: `${completionRate}%` }}></div>
-                    </div>
-                </div>
-                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
-                    <div className="text-slate-400 text-sm font-bold uppercase mb-2">Processed</div>
-                    <div className="text-4xl font-bold text-emerald-400">{codedRows}</div>
-                    <div className="text-xs text-slate-500 mt-2">Automatically or Manually Coded</div>
+            <div className="flex justify-between items-end gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-white mb-2">Prompt Templates</h2>
+                    <p className="text-slate-400">Edit the prompt used for each classification. Every save creates a new version; coded rows record the version they were coded with.</p>
                 </div>
+                <select
+                    value={module}
+                    onChange={(e) => setModule(e.target.value as ModuleType)}
+                    className="bg-slate-900 border border-slate-600 rounded-lg p-2.5 text-white text-sm"
+                >
+                    {CLASSIFICATIONS.map(c => <option key={c.id} value={c.id}>{c.shortName}</option>)}
+                </select>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Confidence Distribution */}
-                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
-                    <h3 className="text-lg font-bold text-white mb-6 flex items-center gap-2">
-                        <PieChartIcon className="w-5 h-5 text-purple-400" /> Confidence Distribution
-                    </h3>
-                    <div className="space-y-4">
-                        {['High', 'Medium', 'Low', 'Manual', 'Reference'].map(conf => {
-                            const count = confidenceStats[conf] || 0;
-                            const pct = codedRows > 0 ? (count / codedRows) * 100 : 0;
-                            const color = 
-                                conf === 'High' || conf === 'Reference' ? 'bg-emerald-500' :
-                                conf === 'Medium' ? 'bg-amber-500' :
-                                conf === 'Manual' ? 'bg-blue-500' : 'bg-red-500';
-                            
-                            return (
-                                <div key={conf}>
-                                    <div className="flex justify-between text-sm mb-1">
-                                        <span className="text-slate-300">{conf}</span>
-                                        <span className="text-slate-400 font-mono">{count} ({Math.round(pct)}%)</span>
-                                    </div>
-                                    <div className="w-full bg-slate-700 h-2 rounded-full overflow-hidden">
-                                        <div className={`h-full ${color}`} style={{ width: `${pct}%` }}></div>
-                                    </div>
-                                </div>
-                            );
-                        })}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl space-y-5">
+                    <div className="flex justify-between items-center">
+                        <div className="text-sm text-slate-400">
+                            Active: <span className="font-mono text-purple-300">{active.id}</span>
+                            {isDirty && <span className="ml-2 text-[10px] bg-amber-500/20 text-amber-300 px-1.5 py-0.5 rounded">UNSAVED</span>}
+                        </div>
+                        <button
+                            onClick={() => setDraft(toPromptDraft(defaultTemplate))}
+                            className="text-xs text-slate-400 hover:text-white flex items-center gap-1"
+                        >
+                            <RefreshCwIcon className="w-3 h-3" /> Load built-in default
+                        </button>
+                    </div>
+
+                    {PROMPT_FIELDS.map(({ key, label, rows, hint }) => (
+                        <div key={key}>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">{label}</label>
+                            <textarea
+                                rows={rows}
+                                value={draft[key]}
+                                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-sm text-slate-200 font-mono"
+                            />
+                            <p className="text-[11px] text-slate-500 mt-1">{hint}</p>
+                        </div>
+                    ))}
+
+                    <div className="flex gap-3 items-center pt-2 border-t border-slate-700">
+                        <input
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder="Change note (optional)"
+                            className="flex-1 bg-slate-900 border border-slate-600 rounded-lg p-2.5 text-sm text-white"
+                        />
+                        <button
+                            onClick={handleSave}
+                            disabled={!isDirty || isSaving}
+                            className="px-4 py-2.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg flex items-center gap-2"
+                        >
+                            <SaveIcon className="w-4 h-4" /> {isSaving ? 'Saving...' : 'Save as New Version'}
+                        </button>
                     </div>
                 </div>
 
-                {/* Top Codes */}
-                <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg">
-                    <h3 className="text-lg font-bold text-white mb-6 flex items-center gap-2">
-                        <BarChartIcon className="w-5 h-5 text-indigo-400" /> Top 5 Codes
-                    </h3>
-                    {topCodes.length > 0 ? (
-                        <div className="space-y-4">
-                            {topCodes.map(([code, count], idx) => {
-                                const max = topCodes[0][1];
-                                const width = (count / max) * 100;
-                                return (
-                                    <div key={code} className="flex items-center gap-3">
-                                        <div className="w-12 text-right font-mono text-blue-300 font-bold text-sm">{code}</div>
-                                        <div className="flex-1">
-                                            <div className="bg-indigo-600/50 h-6 rounded flex items-center px-2 text-xs text-white" style={{ width: `${width}%`, minWidth: '2rem' }}>
-                                                {count}
-                                            </div>
+                <div className="space-y-6">
+                    <div className="bg-slate-800 border border-slate-700 rounded-xl p-5 shadow-xl">
+                        <h3 className="text-sm font-bold text-white mb-3 flex items-center gap-2"><ClockIcon className="w-4 h-4 text-purple-400" /> Version History</h3>
+                        <div className="space-y-2 max-h-72 overflow-y-auto">
+                            {[...versions, defaultTemplate].map(version => (
+                                <div key={version.id} className="flex justify-between items-start gap-2 p-2 rounded bg-slate-900/50">
+                                    <div className="min-w-0">
+                                        <div className="font-mono text-xs text-purple-300">
+                                            v{version.version}
+                                            {version.id === active.id && <span className="ml-2 text-[10px] bg-purple-500/20 text-purple-300 px-1.5 py-0.5 rounded">ACTIVE</span>}
                                         </div>
+                                        <div className="text-[11px] text-slate-500 truncate">
+                                            {version.createdAt ? new Date(version.createdAt).toLocaleString() : 'Shipped with the app'}
+                                            {version.createdBy && ` · ${version.createdBy}`}
+                                        </div>
+                                        {version.note && <div className="text-xs text-slate-400 truncate" title={version.note}>{version.note}</div>}
                                     </div>
-                                );
-                            })}
+                                    <button
+                                        onClick={() => setDraft(toPromptDraft(version))}
+                                        className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded flex-shrink-0"
+                                    >
+                                        Load
+                                    </button>
+                                </div>
+                            ))}
                         </div>
-                    ) : (
-                        <div className="text-center text-slate-500 py-10">No coded data available yet.</div>
-                    )}
+                        <p className="text-[11px] text-slate-500 mt-3">Loading an older version and saving it makes it active again as a new version.</p>
+                    </div>
+
+                    <div className="bg-slate-800 border border-slate-700 rounded-xl p-5 shadow-xl">
+                        <h3 className="text-sm font-bold text-white mb-3 flex items-center gap-2"><CodeIcon className="w-4 h-4 text-purple-400" /> Variables</h3>
+                        <ul className="space-y-1.5">
+                            {PROMPT_VARIABLES.map(v => (
+                                <li key={v.name} className="text-xs text-slate-400">
+                                    <span className="font-mono text-purple-300">{v.name}</span> — {v.description}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
                 </div>
             </div>
+
+            <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
+                <h3 className="text-sm font-bold text-white mb-3 flex items-center gap-2"><SearchIcon className="w-4 h-4 text-purple-400" /> Preview</h3>
+                <pre className="bg-slate-900 border border-slate-700 rounded-lg p-4 text-xs text-slate-300 whitespace-pre-wrap max-h-96 overflow-y-auto">{preview}</pre>
+            </div>
         </div>
     );
 };
 
-const RoadmapView = () => (
-    <div className="p-8 text-slate-300">
-      <h2 className="text-2xl font-bold mb-4">Project Roadmap</h2>
-      <ul className="list-disc ml-6 space-y-2">
-          <li>Advanced RAG with Vector Database</li>
-          <li>Team Collaboration & Cloud Sync</li>
-          <li>API Endpoint for external integration</li>
-          <li>Multi-language Support</li>
-      </ul>
-    </div>
-);
-
-const Sidebar: React.FC<{ 
-    activeModule: ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge'; 
-    onModuleSelect: (m: ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge') => void;
+const Sidebar: React.FC<{
+    activeModule: ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge' | 'sessions' | 'prompts' | 'qc' | 'evaluation'; 
+    onModuleSelect: (m: ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge' | 'sessions' | 'prompts' | 'qc' | 'evaluation') => void;
     onOpenSettings: () => void;
     currentProvider: AIProvider;
     onSaveSession: () => void;
     onClearSession: () => void;
+    lastSavedAt: number | null;
     canInstall: boolean;
     onInstall: () => void;
-  }> = ({ activeModule, onModuleSelect, onOpenSettings, currentProvider, onSaveSession, onClearSession, canInstall, onInstall }) => {
-    const [hoveredModule, setHoveredModule] = useState<ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge' | null>(null);
+  }> = ({ activeModule, onModuleSelect, onOpenSettings, currentProvider, onSaveSession, onClearSession, lastSavedAt, canInstall, onInstall }) => {
+    const [hoveredModule, setHoveredModule] = useState<ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge' | 'sessions' | 'prompts' | 'qc' | 'evaluation' | null>(null);
   
     const getProviderIcon = (p: AIProvider) => {
       switch(p) {
@@ -828,7 +3645,7 @@ const Sidebar: React.FC<{
         
         <div className="flex-1 py-6 space-y-1 overflow-y-auto custom-scrollbar min-h-0">
           <div className="px-4 text-xs font-semibold uppercase text-slate-500 mb-2">Coding Modules</div>
-          {(Object.values(ModuleType) as ModuleType[]).map((module) => (
+          {CLASSIFICATIONS.map(({ id: module, ...details }) => (
             <div 
               key={module}
               className="relative group"
@@ -843,8 +3660,8 @@ const Sidebar: React.FC<{
                   : 'hover:bg-slate-800 hover:text-slate-100'
                 }`}
               >
-                {module === ModuleType.DUAL ? <CodeIcon className="w-4 h-4 flex-shrink-0" /> : <DatabaseIcon className="w-4 h-4 flex-shrink-0" />}
-                <span className="font-medium truncate">{module === ModuleType.DUAL ? "Dual (ISCO+ISIC)" : module}</span>
+                {details.parts ? <CodeIcon className="w-4 h-4 flex-shrink-0" /> : <DatabaseIcon className="w-4 h-4 flex-shrink-0" />}
+                <span className="font-medium truncate">{details.shortName}</span>
                 <HelpCircleIcon className={`w-3 h-3 ml-auto transition-opacity ${hoveredModule === module ? 'opacity-100' : 'opacity-0'}`} />
               </button>
   
@@ -852,14 +3669,14 @@ const Sidebar: React.FC<{
               {hoveredModule === module && (
                 <div className="absolute left-full top-0 ml-1 w-72 bg-slate-800 border border-slate-700 p-4 rounded-xl shadow-2xl z-50 animate-in fade-in slide-in-from-left-2 hidden group-hover:block">
                   <div className="flex items-start justify-between mb-2">
-                    <h4 className="text-sm font-bold text-white">{MODULE_DETAILS[module].name}</h4>
+                    <h4 className="text-sm font-bold text-white">{details.name}</h4>
                     <span className="text-[10px] bg-slate-700 text-slate-300 px-1.5 py-0.5 rounded border border-slate-600">INFO</span>
                   </div>
                   <p className="text-xs text-slate-400 mb-3 leading-relaxed">
-                    {MODULE_DETAILS[module].description}
+                    {details.description}
                   </p>
                   <a 
-                    href={MODULE_DETAILS[module].url} 
+                    href={details.url} 
                     target="_blank" 
                     rel="noreferrer"
                     className="text-xs flex items-center gap-1 text-blue-400 hover:text-blue-300 hover:underline"
@@ -883,6 +3700,50 @@ const Sidebar: React.FC<{
               <DatabaseIcon className="w-4 h-4 flex-shrink-0" />
               <span className="font-medium truncate">Knowledge Base</span>
           </button>
+          <button
+              onClick={() => onModuleSelect('prompts')}
+              className={`w-full text-left px-6 py-3 flex items-center gap-3 transition-colors ${
+              activeModule === 'prompts'
+              ? 'bg-blue-900/30 text-purple-400 border-r-4 border-purple-500' 
+              : 'hover:bg-slate-800 hover:text-slate-100'
+              }`}
+          >
+              <EditIcon className="w-4 h-4 flex-shrink-0" />
+              <span className="font-medium truncate">Prompt Templates</span>
+          </button>
+          <button
+              onClick={() => onModuleSelect('sessions')}
+              className={`w-full text-left px-6 py-3 flex items-center gap-3 transition-colors ${
+              activeModule === 'sessions'
+              ? 'bg-blue-900/30 text-blue-400 border-r-4 border-blue-500' 
+              : 'hover:bg-slate-800 hover:text-slate-100'
+              }`}
+          >
+              <ClockIcon className="w-4 h-4 flex-shrink-0" />
+              <span className="font-medium truncate">Saved Sessions</span>
+          </button>
+          <button
+              onClick={() => onModuleSelect('qc')}
+              className={`w-full text-left px-6 py-3 flex items-center gap-3 transition-colors ${
+              activeModule === 'qc'
+              ? 'bg-blue-900/30 text-teal-400 border-r-4 border-teal-500' 
+              : 'hover:bg-slate-800 hover:text-slate-100'
+              }`}
+          >
+              <CheckCircleIcon className="w-4 h-4 flex-shrink-0" />
+              <span className="font-medium truncate">Double Coding</span>
+          </button>
+          <button
+              onClick={() => onModuleSelect('evaluation')}
+              className={`w-full text-left px-6 py-3 flex items-center gap-3 transition-colors ${
+              activeModule === 'evaluation'
+              ? 'bg-blue-900/30 text-rose-400 border-r-4 border-rose-500' 
+              : 'hover:bg-slate-800 hover:text-slate-100'
+              }`}
+          >
+              <BarChartIcon className="w-4 h-4 flex-shrink-0" />
+              <span className="font-medium truncate">Evaluation</span>
+          </button>
           <button
               onClick={() => onModuleSelect('dashboard')}
               className={`w-full text-left px-6 py-3 flex items-center gap-3 transition-colors ${
@@ -918,6 +3779,9 @@ const Sidebar: React.FC<{
             <SaveIcon className="w-4 h-4" />
             Save Progress
           </button>
+          {lastSavedAt && (
+            <div className="px-2 text-[11px] text-slate-500">Saved {new Date(lastSavedAt).toLocaleTimeString()}</div>
+          )}
           
           <button 
             onClick={onClearSession}
@@ -961,7 +3825,7 @@ const Sidebar: React.FC<{
 // --- Main App Logic ---
 
 function App() {
-  const [activeModule, setActiveModule] = useState<ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge'>(ModuleType.ISCO08);
+  const [activeModule, setActiveModule] = useState<ModuleType | 'interactive' | 'roadmap' | 'dashboard' | 'knowledge' | 'sessions' | 'prompts' | 'qc' | 'evaluation'>(ModuleType.ISCO08);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [settings, setSettings] = useState<AISettings>({
     provider: AIProvider.Gemini,
@@ -974,12 +3838,30 @@ function App() {
   const [columns, setColumns] = useState<string[]>([]);
   const [rawData, setRawData] = useState<RawDataRow[]>([]);
   const [processedRows, setProcessedRows] = useState<ProcessedRow[]>([]);
+  const [deletedRows, setDeletedRows] = useState<ProcessedRow[]>([]);
   const [mapping, setMapping] = useState<ColumnMapping>({ idColumn: '', jobTitleColumn: '', jobDescriptionColumn: '' });
+  const [moduleSettings, setModuleSettings] = useState<Partial<Record<ModuleType, ModuleSettings>>>({});
   const [progress, setProgress] = useState({ total: 0, current: 0 });
   const [manualModalRow, setManualModalRow] = useState<ProcessedRow | null>(null);
+  const [reviewQueue, setReviewQueue] = useState<string[] | null>(null); // Row keys for review mode, fixed when it opens
+  const [historyRowKey, setHistoryRowKey] = useState<string | null>(null);
+  const [bulkEdits, setBulkEdits] = useState<BulkEdit[]>([]); // Undo stack for bulk actions, this session only
+  const historyRow = historyRowKey ? processedRows.find(r => r.rowKey === historyRowKey) : undefined;
+
+  // Session persistence
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionName, setSessionName] = useState('');
+  const [sessionModule, setSessionModule] = useState<ModuleType>(ModuleType.ISCO08);
+  const [sessionCreatedAt, setSessionCreatedAt] = useState(0);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const reviewProgress = useMemo(() => getReviewProgress(processedRows), [processedRows]);
 
   // Refs for processing loop control
   const stopProcessingRef = useRef(false);
+  const processingRunRef = useRef(0);
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const autosaveTimerRef = useRef<number | null>(null);
+  const pendingSessionRef = useRef<CodingSession | null>(null);
 
   useEffect(() => {
     const handleBeforeInstallPrompt = (e: any) => {
@@ -990,98 +3872,590 @@ function App() {
     return () => window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
   }, []);
 
-  const handleFileUpload = (data: RawDataRow[]) => {
+  const buildSession = (): CodingSession | null => {
+      if (!sessionId) return null;
+      return {
+          id: sessionId,
+          name: sessionName,
+          module: sessionModule,
+          mapping,
+          moduleSettings: moduleSettings[sessionModule],
+          columns,
+          rows: processedRows,
+          deletedRows,
+          progress,
+          createdAt: sessionCreatedAt,
+          updatedAt: Date.now()
+      };
+  };
+
+  const persistSession = async (session: CodingSession) => {
+      try {
+          await saveSession(session);
+          setLastSavedAt(session.updatedAt);
+      } catch (e) {
+          console.error(`[Session] Failed to save session ${session.id}`, e);
+      }
+  };
+
+  const flushAutosave = async () => {
+      if (autosaveTimerRef.current !== null) {
+          window.clearTimeout(autosaveTimerRef.current);
+          autosaveTimerRef.current = null;
+      }
+      const session = buildSession();
+      if (session) await persistSession(session);
+  };
+
+  // Autosave: keep the latest snapshot in a ref and write it at most once per interval
+  useEffect(() => {
+      const session = buildSession();
+      if (!session || session.rows.length === 0) return;
+      pendingSessionRef.current = session;
+
+      if (autosaveTimerRef.current === null) {
+          autosaveTimerRef.current = window.setTimeout(() => {
+              autosaveTimerRef.current = null;
+              if (pendingSessionRef.current) persistSession(pendingSessionRef.current);
+          }, AUTOSAVE_INTERVAL_MS);
+      }
+  }, [sessionId, sessionName, processedRows, deletedRows, mapping, moduleSettings, progress]);
+
+  const resetSession = () => {
+      stopProcessingRef.current = true;
+      if (autosaveTimerRef.current !== null) {
+          window.clearTimeout(autosaveTimerRef.current);
+          autosaveTimerRef.current = null;
+      }
+      pendingSessionRef.current = null;
+      setSessionId(null);
+      setSessionName('');
+      setLastSavedAt(null);
+      setReviewQueue(null);
+      setBulkEdits([]);
+  };
+
+  const handleOpenSession = async (id: string) => {
+      await flushAutosave();
+      resetSession();
+
+      const session = await loadSession(id);
+      if (!session) {
+          alert("Session not found. It may have been deleted.");
+          return;
+      }
+
+      const doneCount = session.rows.filter(r => r.codingStatus === 'coded' || r.manuallyEdited).length;
+      setSessionId(session.id);
+      setSessionName(session.name);
+      setSessionModule(session.module);
+      setSessionCreatedAt(session.createdAt);
+      setLastSavedAt(session.updatedAt);
+      setMapping(session.mapping);
+      setModuleSettings(prev => ({ ...prev, [session.module]: session.moduleSettings || {} }));
+      setColumns(session.columns);
+      setRawData([]);
+      setProcessedRows(session.rows);
+      setDeletedRows(session.deletedRows || []);
+      setProgress({ total: session.rows.length, current: doneCount });
+      setActiveModule(session.module);
+      // Sessions with pending rows reopen paused so the user decides when to call the AI again
+      setCodingStatus(doneCount < session.rows.length ? CodingStatus.Paused : CodingStatus.Review);
+  };
+
+  const handleFileUpload = async (data: RawDataRow[], fileName: string) => {
+      // A new upload starts a new session; detach (but keep) the previous one
+      await flushAutosave();
+      resetSession();
       setRawData(data);
+      setSessionName(fileName);
       if(data.length > 0) {
-          setColumns(Object.keys(data[0]));
+          // Ragged files can have columns the first row lacks; rowKey is internal, not a file column
+          const keys = new Set<string>();
+          data.forEach(row => Object.keys(row).forEach(key => { if (key !== 'rowKey') keys.add(key); }));
+          setColumns(Array.from(keys));
           setCodingStatus(CodingStatus.Mapping);
       }
   };
 
   const handleStartCoding = async () => {
     setCodingStatus(CodingStatus.Processing);
+    const now = Date.now();
+    setSessionId(crypto.randomUUID());
+    setSessionModule(activeModule as ModuleType);
+    setSessionCreatedAt(now);
+    if (!sessionName) setSessionName(`${activeModule} - ${new Date(now).toLocaleString()}`);
     // Initialize rows
+    const definition = getClassification(activeModule as ModuleType);
     const initRows: ProcessedRow[] = rawData.map(r => ({
         ...r,
-        id: mapping.idColumn ? r[mapping.idColumn] : r.id,
+        // The user's ID column stays untouched as data; rows are tracked by rowKey
+        sourceId: mapping.idColumn ? String(r[mapping.idColumn] ?? '') : '',
         primaryText: r[mapping.jobTitleColumn],
         secondaryText: mapping.jobDescriptionColumn ? r[mapping.jobDescriptionColumn] : '',
+        // Only dual coding reads the industry, so it must not split duplicates in other modules
+        tertiaryText: definition.fields.tertiary && mapping.industryColumn ? r[mapping.industryColumn] : '',
         codingStatus: 'pending'
     }));
     setProcessedRows(initRows);
+    setDeletedRows([]);
+    setBulkEdits([]);
     setProgress({ total: initRows.length, current: 0 });
     stopProcessingRef.current = false;
 
     // Start Async Processing Loop
-    processRows(initRows);
+    processRows(initRows, activeModule as ModuleType);
   };
 
-  const processRows = async (rows: ProcessedRow[]) => {
-      for (let i = 0; i < rows.length; i++) {
-          if (stopProcessingRef.current) break;
-          
-          // Skip if already coded or manually edited
-          if (rows[i].codingStatus === 'coded' || rows[i].manuallyEdited) {
-              setProgress(prev => ({...prev, current: i + 1}));
-              continue;
-          }
+  const processRows = async (rows: ProcessedRow[], module: ModuleType) => {
+      // Each run gets an id so a run that is still draining after a pause cannot finish a newer one
+      const runId = ++processingRunRef.current;
+      const shouldStop = () => stopProcessingRef.current || processingRunRef.current !== runId;
 
-          try {
-              const currentRow = rows[i];
-              const module = activeModule as ModuleType;
-
-              // 1. Check Local Dictionary (Priority)
-              const refMatch = await findReferenceMatch(currentRow['primaryText'], module);
-              if (refMatch) {
-                  const result: CodedResult = {
-                      code: refMatch.code,
-                      label: refMatch.label,
-                      confidence: 'Reference',
-                      reasoning: 'Exact match from Knowledge Base'
-                  };
-                  updateRowResult(i, result);
-                  continue;
-              }
+      // Continue with pending rows only (e.g. when a saved session is resumed); rows still
+      // in flight from a paused run are left to that run
+      const pending = rows.filter(r => r.codingStatus !== 'coded' && !r.manuallyEdited && !inFlightRef.current.has(r.rowKey));
+      setProgress({ total: rows.length, current: rows.length - pending.length });
+      if (pending.length === 0) {
+          setCodingStatus(CodingStatus.Review);
+          return;
+      }
 
-              // 2. RAG Lookup for Context
-              const similarRefs = await findSimilarReferences(currentRow['primaryText'], module);
+      const limits = getProviderLimits(settings);
+      // Ensemble coding sends every request to each voter; voters on one provider share its rate limits
+      const voters = getEnsembleVoters(settings);
+      const limiters = new Map(voters.map(voter => [voter.provider, createRateLimiter(getProviderLimits(voter))]));
+      // Single model: its answer as is. Ensemble: the majority answer with every vote attached.
+      const decide = (inputs: VoteInput[]) => voters.length === 1 ? inputs[0].result || null : combineVotes(inputs, module, minLevel);
+      const minLevel = moduleSettings[module]?.minLevel;
+      const matching = getMatchSettings(moduleSettings[module]);
+      const template = await getActivePromptTemplate(module).catch(e => {
+          console.error('[Prompts] Failed to load prompt template; using the built-in default', e);
+          return getDefaultPromptTemplate(module);
+      });
+      type AiItem = { row: ProcessedRow, refs: ReferenceEntry[], referenceParts?: Partial<DualResult> };
 
-              // 3. Call AI
-              const result = await codeSingleOccupation(
-                  currentRow['primaryText'], 
-                  currentRow['secondaryText'], 
-                  module, 
-                  settings,
-                  undefined, 
-                  similarRefs
-              );
-              updateRowResult(i, result);
+      const toReferenceResult = ({ entry, score }: { entry: ReferenceEntry, score: number }): CodedResult => ({
+          code: entry.code,
+          label: entry.label,
+          confidence: 'Reference',
+          reasoning: score === 0 
+              ? `${matching.mode === 'exact' ? 'Exact' : 'Normalized'} match to "${entry.term}" in Knowledge Base`
+              : `Fuzzy match to "${entry.term}" in Knowledge Base (score ${score.toFixed(3)})`,
+          match: { entryId: entry.id, term: entry.term, score, mode: matching.mode }
+      });
+
+      // Identical inputs are coded once; the first row of each group is sent and the
+      // result is copied to the rest
+      const groups = groupIdenticalInputs(pending);
+      const groupKeys = new Map(groups.map(group => [group[0].rowKey, group.map(r => r.rowKey)]));
+      const keysOf = (row: ProcessedRow) => groupKeys.get(row.rowKey) || [row.rowKey];
+      const advanceProgress = (row: ProcessedRow) => {
+          const count = keysOf(row).length;
+          setProgress(prev => ({...prev, current: Math.min(prev.total, prev.current + count)}));
+      };
 
+      // Dual coding: a half found in the knowledge base replaces the AI's answer for that half
+      const withReferenceParts = (result: CodedResult, referenceParts?: Partial<DualResult>) => {
+          if (!referenceParts || !result.dual) return result;
+          return { 
+              ...combineDualResult(referenceParts.isco || result.dual.isco, referenceParts.isic || result.dual.isic), 
+              promptVersion: result.promptVersion 
+          };
+      };
+
+      const codeRow = async ({ row: currentRow, refs: similarRefs, referenceParts }: AiItem) => {
+          let retryCount = 0;
+          try {
+              // Call AI (rate limited, retried with backoff on 429/5xx)
+              const tokens = estimateCodingTokens(currentRow['primaryText'], `${currentRow['secondaryText']} ${currentRow['tertiaryText'] || ''}`, similarRefs);
+              const inputs = await Promise.all(voters.map(async (voter): Promise<VoteInput> => {
+                  const voterLimits = getProviderLimits(voter);
+                  try {
+                      const result = await withRetry(async () => {
+                          await limiters.get(voter.provider)!.acquire(tokens, shouldStop);
+                          return codeSingleOccupation(
+                              currentRow['primaryText'], 
+                              currentRow['secondaryText'], 
+                              module, 
+                              voter,
+                              currentRow['tertiaryText'], 
+                              similarRefs,
+                              minLevel,
+                              template
+                          );
+                      }, {
+                          maxRetries: voterLimits.maxRetries,
+                          shouldAbort: shouldStop,
+                          onRetry: (attempt, error) => {
+                              retryCount = Math.max(retryCount, attempt);
+                              console.warn(`[Queue] Retry ${attempt}/${voterLimits.maxRetries} for row ${currentRow.rowKey} (${getVoterId(voter)})`, error);
+                              updateRows(keysOf(currentRow), { retryCount });
+                          }
+                      });
+                      return { voter, result: withReferenceParts(result, referenceParts) };
+                  } catch (error) {
+                      // A failed ensemble member is recorded as a missing vote; a lone model fails the row
+                      if (isAbortError(error) || voters.length === 1) throw error;
+                      console.error(`[Ensemble] ${getVoterId(voter)} failed for row ${currentRow.rowKey}`, error);
+                      return { voter, error };
+                  }
+              }));
+              const result = decide(inputs);
+              if (!result) throw inputs[0].error;
+              updateRowResult(keysOf(currentRow), result, module, retryCount);
+              advanceProgress(currentRow);
           } catch (e) {
+              // Paused while waiting for a rate-limit slot or backoff: leave the row pending
+              if (isAbortError(e)) return;
               console.error(e);
-              setProcessedRows(prev => {
-                  const next = [...prev];
-                  next[i] = { ...next[i], codingStatus: 'error', errorMessage: 'AI Error' };
-                  return next;
+              const status = getErrorStatus(e);
+              updateRows(keysOf(currentRow), { 
+                  codingStatus: 'error', 
+                  errorMessage: `AI Error${status ? ` (${status})` : ''}${retryCount > 0 ? ` after ${retryCount} retries` : ''}`,
+                  retryCount
+              });
+              advanceProgress(currentRow);
+          }
+      };
+
+      // Codes several rows in one prompt; returns the rows that still need a single-row call
+      const codeRowsInBatch = async (items: AiItem[]) => {
+          const batchItems: CodingBatchItem[] = items.map(({ row, refs }) => ({
+              id: row.rowKey, 
+              primaryText: row['primaryText'], 
+              secondaryText: row['secondaryText'], 
+              tertiaryText: row['tertiaryText'], 
+              examples: refs
+          }));
+          let retryCount = 0;
+          try {
+              const tokens = estimateBatchCodingTokens(batchItems);
+              const runs = await Promise.all(voters.map(voter => {
+                  const voterLimits = getProviderLimits(voter);
+                  return withRetry(async () => {
+                      await limiters.get(voter.provider)!.acquire(tokens, shouldStop);
+                      return codeBatch(batchItems, module, voter, minLevel, template);
+                  }, {
+                      maxRetries: voterLimits.maxRetries,
+                      shouldAbort: shouldStop,
+                      onRetry: (attempt, error) => {
+                          retryCount = Math.max(retryCount, attempt);
+                          console.warn(`[Queue] Retry ${attempt}/${voterLimits.maxRetries} for batch of ${items.length} (${getVoterId(voter)})`, error);
+                      }
+                  });
+              }));
+              // A row is finished only when every voter answered it; the rest are coded one by one
+              const missing = items.filter(({ row, referenceParts }) => {
+                  const answers = runs.map(results => results[row.rowKey]);
+                  if (answers.some(answer => !answer)) return true;
+                  const result = decide(answers.map((answer, i) => ({ voter: voters[i], result: withReferenceParts(answer, referenceParts) })));
+                  if (!result) return true;
+                  updateRowResult(keysOf(row), result, module, retryCount);
+                  advanceProgress(row);
+                  return false;
               });
+              if (missing.length > 0) {
+                  console.warn(`[Queue] Batch returned ${items.length - missing.length} of ${items.length} results; coding the rest one by one`);
+              }
+              return missing;
+          } catch (e) {
+              if (isAbortError(e)) return [];
+              // Unparseable or malformed batch: fall back to single-row calls
+              console.warn('[Queue] Batch failed; coding rows one by one', e);
+              return items;
           }
-          setProgress(prev => ({...prev, current: i + 1}));
+      };
+
+      // Every voter receives the same batches, so the smallest batch size applies
+      const batchSize = Math.max(1, Math.min(...voters.map(voter => Math.floor(getProviderLimits(voter).batchSize) || 1)));
+      const batches: ProcessedRow[][] = [];
+      for (let i = 0; i < groups.length; i += batchSize) {
+          batches.push(groups.slice(i, i + batchSize).map(group => group[0]));
       }
-      if (!stopProcessingRef.current) {
+
+      await runJobQueue(batches, async (batch) => {
+          batch.forEach(row => keysOf(row).forEach(key => inFlightRef.current.add(key)));
+          try {
+              // 1. Check Local Dictionary (Priority), 2. RAG Lookup for Context
+              const aiItems: AiItem[] = [];
+              for (const currentRow of batch) {
+                  if (module === ModuleType.DUAL) {
+                      // Occupation and industry are looked up in the ISCO and ISIC dictionaries separately
+                      const referenceParts: Partial<DualResult> = {};
+                      const refs: ReferenceEntry[] = [];
+                      for (const { part, module: partModule } of DUAL_PARTS) {
+                          const text = part === 'isco' ? currentRow['primaryText'] : getIndustryText(currentRow);
+                          const refMatch = await findReferenceMatch(text, partModule, matching);
+                          if (refMatch) referenceParts[part] = toReferenceResult(refMatch);
+                          else refs.push(...await retrieveExamples(text, partModule, settings, matching));
+                      }
+                      if (referenceParts.isco && referenceParts.isic) {
+                          updateRowResult(keysOf(currentRow), combineDualResult(referenceParts.isco, referenceParts.isic), module);
+                          advanceProgress(currentRow);
+                      } else {
+                          aiItems.push({ row: currentRow, refs, referenceParts });
+                      }
+                      continue;
+                  }
+
+                  const refMatch = await findReferenceMatch(currentRow['primaryText'], module, matching);
+                  if (refMatch) {
+                      updateRowResult(keysOf(currentRow), toReferenceResult(refMatch), module);
+                      advanceProgress(currentRow);
+                  } else {
+                      aiItems.push({ row: currentRow, refs: await retrieveExamples(currentRow['primaryText'], module, settings, matching) });
+                  }
+              }
+
+              // 3. Call AI
+              const singles = aiItems.length > 1 ? await codeRowsInBatch(aiItems) : aiItems;
+              for (const item of singles) {
+                  if (shouldStop()) break;
+                  await codeRow(item);
+              }
+          } finally {
+              batch.forEach(row => keysOf(row).forEach(key => inFlightRef.current.delete(key)));
+          }
+      }, { concurrency: limits.concurrency, shouldStop });
+
+      if (!shouldStop()) {
           setCodingStatus(CodingStatus.Review);
       }
   };
 
-  const updateRowResult = (index: number, result: CodedResult) => {
-      setProcessedRows(prev => {
-          const next = [...prev];
-          next[index] = { 
-              ...next[index], 
-              codingStatus: 'coded', 
-              result 
-          };
-          return next;
-      });
+  // The first key is the row that was actually coded; the others share its result.
+  // A change, when given, is logged on every row with that row's previous result.
+  const updateRows = (rowKeys: string[], patch: Partial<ProcessedRow>, change?: Omit<RowChange, 'at' | 'before'>) => {
+      const keys = new Set(rowKeys);
+      setProcessedRows(prev => prev.map(r => {
+          if (!keys.has(r.rowKey)) return r;
+          const shared = r.rowKey !== rowKeys[0];
+          const logged = change 
+              ? withChange(r, { ...change, before: r.result, note: shared ? 'Reused from an identical input' : change.note }) 
+              : r;
+          return { ...logged, ...patch, sharedFrom: shared ? rowKeys[0] : undefined };
+      }));
+  };
+
+  const updateRowResult = (rowKeys: string[], result: CodedResult, module: ModuleType, retryCount?: number) => {
+      // Every result is checked against the official hierarchy; invalid codes are kept but flagged.
+      // Candidates live on the row so they survive a reviewer switching to one of them.
+      const { candidates, ...coded } = result;
+      const validation = validateCodedResult(coded, module, moduleSettings[module]?.minLevel);
+      const reviewReason = getReviewReason(validation.result, validation.error, getReviewRules(moduleSettings[module]));
+      updateRows(rowKeys, { 
+          codingStatus: validation.error ? 'error' : 'coded', 
+          result: validation.result,
+          errorMessage: validation.error,
+          retryCount,
+          candidates,
+          reviewState: reviewReason ? 'needs-review' : undefined,
+          reviewReason
+      }, { action: 'coded', ...getCodingActor(validation.result, settings), after: validation.result, note: validation.error });
+  };
+
+  // Manual edits and picked alternatives: validated, marked as edited and learned as corrections
+  const applyManualResult = (row: ProcessedRow, result: CodedResult, note?: string) => {
+      const module = sessionModule;
+      const validation = validateCodedResult(result, module, moduleSettings[module]?.minLevel);
+      if (!validation.error) {
+          // Only halves the coder changed are marked Manual and learned
+          const learned = createLearnedEntries(row, validation.result, module, r => r.confidence === 'Manual');
+          if (learned.length > 0) {
+              addReferenceEntries(learned).catch(e => console.error('[Learning] Failed to store correction', e));
+          }
+      }
+      setProcessedRows(prev => prev.map(r => r.rowKey === row.rowKey ? toEditedRow(r, validation, note) : r));
+  };
+
+  const toEditedRow = (row: ProcessedRow, validation: { result: CodedResult; error?: string }, note?: string): ProcessedRow => ({ 
+      ...withChange(row, { 
+          action: 'edited', source: 'coder', actor: settings.coderName || 'Manual', 
+          before: row.result, after: validation.result, note: note || validation.error 
+      }), 
+      result: validation.result, 
+      codingStatus: validation.error ? 'error' : 'coded',
+      errorMessage: validation.error,
+      manuallyEdited: true,
+      editedBy: settings.coderName || undefined,
+      // A correction settles the row's review; rows outside the queue stay out of it
+      reviewState: row.reviewState ? 'approved' : undefined,
+      sharedFrom: undefined 
+  });
+
+  const pushBulkEdit = (label: string, rows: ProcessedRow[]) => 
+      setBulkEdits(prev => [...prev, { label, rows }].slice(-UNDO_LIMIT));
+
+  // Bulk recodes are undoable and, unlike single edits, not learned: one rule applied to
+  // hundreds of rows would flood the knowledge base review queue
+  const applyBulkRecode = (targets: ProcessedRow[], target: { code: string; label: string }, part: keyof DualResult, label: string) => {
+      if (targets.length === 0) return;
+      const module = sessionModule;
+      const keys = new Set(targets.map(r => r.rowKey));
+      pushBulkEdit(label, targets);
+      setProcessedRows(prev => prev.map(r => {
+          if (!keys.has(r.rowKey)) return r;
+          const recoded = recodeResult(r.result, target, `Bulk recode by ${settings.coderName || 'coder'}`, part);
+          return toEditedRow(r, validateCodedResult(recoded, module, moduleSettings[module]?.minLevel), label);
+      }));
+  };
+
+  const handleSetCode = (rowKeys: string[], rawCode: string, part: keyof DualResult) => {
+      try {
+          const target = resolveBulkCode(rawCode, getTargetModule(sessionModule, part));
+          const keys = new Set(rowKeys);
+          applyBulkRecode(processedRows.filter(r => keys.has(r.rowKey)), target, part, `Set ${target.code} (${rowKeys.length} rows)`);
+      } catch (e) {
+          alert(e instanceof Error ? e.message : String(e));
+      }
+  };
+
+  const handleFindReplace = (fromCode: string, toCode: string, pattern: string, part: keyof DualResult) => {
+      try {
+          const target = resolveBulkCode(toCode, getTargetModule(sessionModule, part));
+          const matches = findReplaceMatches(processedRows, fromCode, pattern, part);
+          applyBulkRecode(matches, target, part, `Replace ${fromCode.trim()} with ${target.code}${pattern.trim() ? ` where text matches "${pattern.trim()}"` : ''} (${matches.length} rows)`);
+      } catch (e) {
+          alert(e instanceof Error ? e.message : String(e));
+      }
+  };
+
+  // Selected rows go back to pending, including manual edits, and only they are sent to the AI again
+  const handleRerunRows = (rowKeys: string[]) => {
+      if (codingStatus === CodingStatus.Processing) {
+          alert("Pause coding or wait for it to finish before re-running rows.");
+          return;
+      }
+      const keys = new Set(rowKeys);
+      pushBulkEdit(`Re-run AI (${rowKeys.length} rows)`, processedRows.filter(r => keys.has(r.rowKey)));
+      const reset = processedRows.map(r => keys.has(r.rowKey) 
+          ? { ...r, codingStatus: 'pending' as const, manuallyEdited: false, errorMessage: undefined, sharedFrom: undefined } 
+          : r);
+      setProcessedRows(reset);
+      stopProcessingRef.current = false;
+      setCodingStatus(CodingStatus.Processing);
+      // Other unfinished rows (e.g. earlier errors) wait for the next resume
+      processRows(reset.filter(r => keys.has(r.rowKey)), sessionModule);
+  };
+
+  const handleUndoBulkEdit = () => {
+      if (codingStatus === CodingStatus.Processing) {
+          alert("Pause coding or wait for it to finish before undoing.");
+          return;
+      }
+      const edit = bulkEdits[bulkEdits.length - 1];
+      if (!edit) return;
+      const changed = getRowsChangedSince(processedRows, edit);
+      if (changed.length > 0 && !confirm(`${changed.length} of these rows were edited, reviewed or double-coded after "${edit.label}". Undo anyway? Their codes go back to before the bulk action.`)) return;
+      setBulkEdits(prev => prev.slice(0, -1));
+      setProcessedRows(prev => undoBulkEdit(prev, edit, settings.coderName || 'Manual'));
+  };
+
+  // Review decisions leave the result untouched, so shared rows keep their link
+  const setReviewState = (rowKeys: string[], reviewState: ReviewState) => {
+      const keys = new Set(rowKeys);
+      setProcessedRows(prev => prev.map(r => keys.has(r.rowKey) ? { 
+          ...withChange(r, { action: 'reviewed', source: 'coder', actor: settings.coderName || 'Reviewer', note: REVIEW_STATE_LABELS[reviewState] }), 
+          reviewState 
+      } : r));
+  };
+
+  // Deleted rows leave the results but keep their history for the audit trail
+  const handleDeleteRows = (rowKeys: string[]) => {
+      const keys = new Set(rowKeys);
+      const actor = settings.coderName || 'Manual';
+      setDeletedRows(prev => [
+          ...prev, 
+          ...processedRows.filter(r => keys.has(r.rowKey)).map(r => withChange(r, { action: 'deleted', source: 'coder', actor, before: r.result }))
+      ]);
+      setProcessedRows(prev => prev.filter(r => !keys.has(r.rowKey)));
+  };
+
+  // A new sample replaces the previous one, including its second codings
+  const handleDrawSample = (size: number) => {
+      const sample = drawDoubleCodingSample(processedRows, size);
+      setProcessedRows(prev => prev.map(r => sample.has(r.rowKey) 
+          ? { ...r, doubleCoding: { first: toFirstDecision(r) } } 
+          : r.doubleCoding ? { ...r, doubleCoding: undefined } : r));
+  };
+
+  // Using the second code applies it as a manual correction; keeping the first leaves the row as is
+  const handleAdjudicate = (row: ProcessedRow, resolution: 'first' | 'second') => {
+      const { first, second } = row.doubleCoding!;
+      const chosen = resolution === 'first' ? first : second!;
+      if (row.result?.code !== chosen.code) {
+          applyManualResult(row, { 
+              code: chosen.code, 
+              label: chosen.label, 
+              confidence: 'Manual', 
+              reasoning: `Adjudicated: ${resolution} coding by ${chosen.coder}` 
+          }, `Adjudication: ${resolution} coding`);
+      }
+      setProcessedRows(prev => prev.map(r => r.rowKey === row.rowKey && r.doubleCoding 
+          ? { ...r, doubleCoding: { ...r.doubleCoding, resolution } } 
+          : r));
+  };
+
+  // Corrections and accepted codes are queued in the knowledge base for review; one entry
+  // per normalized term, so a later correction of the same text replaces the earlier one
+  const createLearnedEntry = (term: string, result: CodedResult, previous: CodedResult | undefined, module: ModuleType): ReferenceEntry => ({
+      id: `learned:${module}:${normalizeInputText(term)}`,
+      module,
+      term,
+      code: result.code,
+      label: result.label,
+      source: 'learned',
+      status: 'pending',
+      addedAt: Date.now(),
+      provenance: {
+          sessionId: sessionId || undefined,
+          sessionName: sessionName || undefined,
+          coder: settings.coderName || undefined,
+          learnedAt: Date.now(),
+          originalCode: previous && previous.confidence !== 'Manual' ? previous.code : undefined,
+          originalConfidence: previous?.confidence
+      }
+  });
+
+  // Dual results are learned per half: the job title into ISCO, the industry into ISIC.
+  // Reference matches are already in the dictionary; low-confidence codes need a manual check first.
+  const createLearnedEntries = (
+      row: ProcessedRow, 
+      result: CodedResult, 
+      module: ModuleType,
+      isLearnable: (r: CodedResult) => boolean = r => r.confidence === 'High' || r.confidence === 'Manual'
+  ): ReferenceEntry[] => {
+      if (module === ModuleType.DUAL) {
+          if (!result.dual) return [];
+          return DUAL_PARTS
+              .map(({ part, module: partModule }) => ({
+                  term: part === 'isco' ? String(row['primaryText'] || '') : getIndustryText(row),
+                  part: result.dual![part],
+                  previous: row.result?.dual?.[part],
+                  partModule
+              }))
+              .filter(({ term, part }) => term && isLearnable(part))
+              .map(({ term, part, previous, partModule }) => createLearnedEntry(term, part, previous, partModule));
+      }
+      return row['primaryText'] && isLearnable(result) ? [createLearnedEntry(row['primaryText'], result, row.result, module)] : [];
+  };
+
+  const handleLearnFromRows = async (rows: ProcessedRow[]) => {
+      const entries = rows
+          .filter(r => r.codingStatus === 'coded' && r.result)
+          .flatMap(r => createLearnedEntries(r, r.result!, sessionModule));
+      if (entries.length === 0) {
+          alert("Only manually coded or high-confidence rows can be added to the knowledge base.");
+          return;
+      }
+      try {
+          await addReferenceEntries(entries);
+          alert(`${entries.length} entries from ${rows.length} selected rows sent to the knowledge base review queue.`);
+      } catch (e) {
+          console.error(e);
+          alert("Failed to add entries to the knowledge base");
+      }
   };
 
   const handlePause = () => {
@@ -1092,7 +4466,7 @@ function App() {
   const handleResume = () => {
       stopProcessingRef.current = false;
       setCodingStatus(CodingStatus.Processing);
-      processRows(processedRows);
+      processRows(processedRows, sessionModule);
   };
 
   // Render logic for coding views
@@ -1104,8 +4478,12 @@ function App() {
           return (
             <DataMapping 
                 columns={columns} 
+                rows={rawData}
                 mapping={mapping} 
                 onUpdate={setMapping} 
+                module={activeModule as ModuleType}
+                moduleSettings={moduleSettings[activeModule as ModuleType] || {}}
+                onModuleSettingsChange={(s) => setModuleSettings(prev => ({ ...prev, [activeModule]: s }))}
                 onConfirm={handleStartCoding} 
             />
           );
@@ -1130,13 +4508,13 @@ function App() {
                           ) : (
                               <div className="flex gap-2">
                                 <span className="text-slate-400 text-xs font-bold uppercase self-center mr-2">Export As:</span>
-                                <button onClick={() => exportData(processedRows, 'statcode_results', 'csv')} className="px-3 py-2 bg-blue-600 text-white rounded font-bold hover:bg-blue-500 flex items-center gap-1 text-sm">
+                                <button onClick={() => exportData(processedRows, 'statcode_results', 'csv', deletedRows)} className="px-3 py-2 bg-blue-600 text-white rounded font-bold hover:bg-blue-500 flex items-center gap-1 text-sm">
                                     <FileSpreadsheetIcon className="w-4 h-4" /> CSV
                                 </button>
-                                <button onClick={() => exportData(processedRows, 'statcode_results', 'xlsx')} className="px-3 py-2 bg-emerald-600 text-white rounded font-bold hover:bg-emerald-500 flex items-center gap-1 text-sm">
+                                <button onClick={() => exportData(processedRows, 'statcode_results', 'xlsx', deletedRows)} className="px-3 py-2 bg-emerald-600 text-white rounded font-bold hover:bg-emerald-500 flex items-center gap-1 text-sm">
                                     <FileSpreadsheetIcon className="w-4 h-4" /> Excel
                                 </button>
-                                <button onClick={() => exportData(processedRows, 'statcode_results', 'ods')} className="px-3 py-2 bg-purple-600 text-white rounded font-bold hover:bg-purple-500 flex items-center gap-1 text-sm">
+                                <button onClick={() => exportData(processedRows, 'statcode_results', 'ods', deletedRows)} className="px-3 py-2 bg-purple-600 text-white rounded font-bold hover:bg-purple-500 flex items-center gap-1 text-sm">
                                     <FileSpreadsheetIcon className="w-4 h-4" /> ODS
                                 </button>
                               </div>
@@ -1154,15 +4532,60 @@ function App() {
                       </div>
                   )}
 
+                  {reviewProgress.queued > 0 && (
+                      <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 mb-6 flex items-center gap-6">
+                          <div className="flex-1">
+                              <div className="flex justify-between text-xs mb-2">
+                                  <span className="text-slate-300 font-bold">Review Queue</span>
+                                  <span className="text-slate-500">
+                                      {reviewProgress.queued - reviewProgress.pending} of {reviewProgress.queued} reviewed · {reviewProgress.approved} approved · {reviewProgress.flagged} flagged · {reviewProgress.rejected} rejected
+                                  </span>
+                              </div>
+                              <div className="w-full bg-slate-700 h-1.5 rounded-full overflow-hidden">
+                                  <div 
+                                    className="bg-emerald-500 h-full transition-all duration-300" 
+                                    style={{ width: `${((reviewProgress.queued - reviewProgress.pending) / reviewProgress.queued) * 100}%` }} 
+                                  />
+                              </div>
+                          </div>
+                          <button 
+                            onClick={() => setReviewQueue(processedRows.filter(r => (r.reviewState === 'needs-review' || r.reviewState === 'flagged') && !awaitsSecondCoding(r)).map(r => r.rowKey))}
+                            disabled={reviewProgress.pending + reviewProgress.flagged === 0}
+                            title="Step through rows that need review or were flagged, using the keyboard"
+                            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded-lg font-bold text-sm"
+                          >
+                              Start Review ({reviewProgress.pending + reviewProgress.flagged})
+                          </button>
+                      </div>
+                  )}
+
+                  <BulkEditBar
+                    rows={processedRows}
+                    lastEdit={bulkEdits[bulkEdits.length - 1]}
+                    onReplace={handleFindReplace}
+                    onUndo={handleUndoBulkEdit}
+                  />
+
                   <ResultsTable 
                     rows={processedRows} 
                     onEdit={setManualModalRow} 
-                    onDelete={(id) => setProcessedRows(prev => prev.filter(r => r.id !== id))}
+                    onSelectCandidate={(row, candidate) => applyManualResult(row, applyCandidate(row.result, candidate), `Picked alternative ${candidate.code}`)}
+                    onDelete={(id) => handleDeleteRows([id])}
+                    onShowHistory={(row) => setHistoryRowKey(row.rowKey)}
                     onBulkAction={(action, ids) => {
                         if(action === 'delete') {
-                            setProcessedRows(prev => prev.filter(r => !ids.includes(r.id)));
+                            handleDeleteRows(ids);
+                        } else if (action === 'accept') {
+                            handleLearnFromRows(processedRows.filter(r => ids.includes(r.rowKey)));
+                        } else if (action === 'approve') {
+                            setReviewState(ids, 'approved');
+                        } else if (action === 'flag') {
+                            setReviewState(ids, 'flagged');
+                        } else if (action === 'rerun') {
+                            handleRerunRows(ids);
                         }
                     }}
+                    onSetCode={handleSetCode}
                   />
               </div>
           );
@@ -1172,8 +4595,29 @@ function App() {
   const renderContent = () => {
     switch (activeModule) {
       case 'roadmap': return <RoadmapView />;
-      case 'knowledge': return <KnowledgeBaseView />;
+      case 'knowledge': return <KnowledgeBaseView settings={settings} />;
+      case 'prompts': return <PromptTemplatesView coderName={settings.coderName} />;
+      case 'evaluation': return <EvaluationView settings={settings} />;
+      case 'sessions': return (
+        <SessionsView
+            currentSessionId={sessionId}
+            onOpen={handleOpenSession}
+            onDeleted={(id) => { if (id === sessionId) resetSession(); }}
+        />
+      );
       case 'dashboard': return <DashboardView rows={processedRows} />;
+      case 'qc': return (
+        <DoubleCodingView
+            rows={processedRows}
+            module={sessionModule}
+            settings={settings}
+            onDrawSample={handleDrawSample}
+            onSecondCode={(rowKey, decision) => setProcessedRows(prev => prev.map(r => r.rowKey === rowKey && r.doubleCoding 
+                ? { ...r, doubleCoding: { ...r.doubleCoding, second: decision } } 
+                : r))}
+            onAdjudicate={handleAdjudicate}
+        />
+      );
       default: return renderCodingView();
     }
   };
@@ -1191,11 +4635,17 @@ function App() {
 
       <Sidebar 
         activeModule={activeModule}
-        onModuleSelect={(m) => { setActiveModule(m); if(m !== 'dashboard') setCodingStatus(CodingStatus.Idle); }}
+        onModuleSelect={(m) => { 
+            setActiveModule(m); 
+            // An open session keeps its results in tool views and its own module; another classification starts at the upload screen
+            const keepsSession = m === 'dashboard' || (!!sessionId && (TOOL_VIEWS.includes(m) || m === sessionModule));
+            if (!keepsSession) setCodingStatus(CodingStatus.Idle); 
+        }}
         onOpenSettings={() => setSettingsOpen(true)}
         currentProvider={settings.provider}
-        onSaveSession={() => alert('Session Saved')}
-        onClearSession={() => { setRawData([]); setProcessedRows([]); setCodingStatus(CodingStatus.Idle); }}
+        onSaveSession={flushAutosave}
+        onClearSession={async () => { await flushAutosave(); resetSession(); setRawData([]); setProcessedRows([]); setDeletedRows([]); setCodingStatus(CodingStatus.Idle); }}
+        lastSavedAt={lastSavedAt}
         canInstall={canInstall}
         onInstall={() => alert("Install PWA")}
       />
@@ -1210,16 +4660,28 @@ function App() {
         onSave={setSettings}
       />
 
+      {historyRow && <RowHistoryDrawer row={historyRow} onClose={() => setHistoryRowKey(null)} />}
+
+      {reviewQueue && (
+          <ReviewMode
+            rows={processedRows}
+            queue={reviewQueue}
+            paused={!!manualModalRow}
+            onClose={() => setReviewQueue(null)}
+            onSetState={setReviewState}
+            onEdit={setManualModalRow}
+            onSelectCandidate={(row, candidate) => applyManualResult(row, applyCandidate(row.result, candidate), `Picked alternative ${candidate.code}`)}
+          />
+      )}
+
       {manualModalRow && (
           <ManualCodingModal 
             isOpen={true}
             onClose={() => setManualModalRow(null)}
             row={manualModalRow}
-            module={activeModule as ModuleType}
+            module={sessionModule}
             settings={settings}
-            onSave={(result) => {
-                setProcessedRows(prev => prev.map(r => r.id === manualModalRow.id ? { ...r, result, manuallyEdited: true } : r));
-            }}
+            onSave={(result) => applyManualResult(manualModalRow, result)}
           />
       )}
     </div>
@@ -0,0 +1,210 @@
+// COICOP 2018 structure: divisions (01), groups (01.1) and classes (01.1.1).
+// Source: UN Statistics Division, COICOP 2018 (Statistical Papers Series M No. 99).
+// Only the household consumption divisions 01-13 are bundled; subclasses are not included.
+// Format: one "code|label" entry per line, parents listed before their children.
+
+export const COICOP2018_VERSION = 'COICOP 2018 (UNSD, 2018)';
+
+export const COICOP2018_DATA = `
+01|Food and non-alcoholic beverages
+01.1|Food
+01.1.1|Cereals and cereal products
+01.1.2|Live animals, meat and other parts of slaughtered land animals
+01.1.3|Fish and other seafood
+01.1.4|Milk, other dairy products and eggs
+01.1.5|Oils and fats
+01.1.6|Fruit and nuts
+01.1.7|Vegetables, tubers, plantains, cooking bananas and pulses
+01.1.8|Sugar, confectionery and desserts
+01.1.9|Ready-made food and other food products n.e.c.
+01.2|Non-alcoholic beverages
+01.2.1|Fruit and vegetable juices
+01.2.2|Coffee and coffee substitutes
+01.2.3|Tea, maté and other plant products for infusion
+01.2.4|Cocoa drinks
+01.2.5|Water
+01.2.6|Soft drinks
+01.2.9|Other non-alcoholic beverages
+01.3|Services for processing primary goods for food and non-alcoholic beverages
+01.3.0|Services for processing primary goods for food and non-alcoholic beverages
+02|Alcoholic beverages, tobacco and narcotics
+02.1|Alcoholic beverages
+02.1.1|Spirits and liqueurs
+02.1.2|Wine
+02.1.3|Beer
+02.1.4|Alcohol production services
+02.2|Tobacco
+02.2.0|Tobacco
+02.3|Narcotics
+02.3.0|Narcotics
+03|Clothing and footwear
+03.1|Clothing
+03.1.1|Clothing materials
+03.1.2|Garments
+03.1.3|Other articles of clothing and clothing accessories
+03.1.4|Cleaning, repair, tailoring and hire of clothing
+03.2|Footwear
+03.2.1|Shoes and other footwear
+03.2.2|Repair and hire of footwear
+04|Housing, water, electricity, gas and other fuels
+04.1|Actual rentals for housing
+04.1.1|Actual rentals paid by tenants for main residence
+04.1.2|Actual rentals paid by tenants for other housing
+04.2|Imputed rentals for housing
+04.2.1|Imputed rentals of owner-occupiers for main residence
+04.2.2|Other imputed rentals
+04.3|Maintenance, repair and security of the dwelling
+04.3.1|Materials for the maintenance and repair of the dwelling
+04.3.2|Services for the maintenance, repair and security of the dwelling
+04.4|Water supply and miscellaneous services relating to the dwelling
+04.4.1|Water supply
+04.4.2|Refuse collection
+04.4.3|Sewage collection
+04.4.4|Other services relating to the dwelling n.e.c.
+04.5|Electricity, gas and other fuels
+04.5.1|Electricity
+04.5.2|Gas
+04.5.3|Liquid fuels
+04.5.4|Solid fuels
+04.5.5|Heat energy
+05|Furnishings, household equipment and routine household maintenance
+05.1|Furniture, furnishings, and loose carpets
+05.1.1|Furniture and furnishings
+05.1.2|Carpets and other floor coverings
+05.1.3|Repair, installation and hire of furniture, furnishings and floor coverings
+05.2|Household textiles
+05.2.1|Household textiles
+05.2.2|Repair, hire and sewing services of household textiles
+05.3|Household appliances
+05.3.1|Major household appliances whether electric or not
+05.3.2|Small electric household appliances
+05.3.3|Repair, installation and hire of household appliances
+05.4|Glassware, tableware and household utensils
+05.4.1|Glassware, crystal-ware, ceramic ware and chinaware
+05.4.2|Cutlery, flatware and silverware
+05.4.3|Non-electric kitchen utensils and articles
+05.4.4|Repair, hire and sewing services of glassware, tableware and household utensils
+05.5|Tools and equipment for house and garden
+05.5.1|Major tools and equipment
+05.5.2|Small tools and miscellaneous accessories
+05.5.3|Repair and hire of tools and equipment for house and garden
+05.6|Goods and services for routine household maintenance
+05.6.1|Non-durable household goods
+05.6.2|Domestic services and household services
+06|Health
+06.1|Medicines and health products
+06.1.1|Medicines
+06.1.2|Medical products
+06.1.3|Assistive products
+06.2|Outpatient care services
+06.2.1|Preventive services
+06.2.2|Dental services
+06.2.3|Other outpatient care services
+06.3|Inpatient care services
+06.3.1|Curative and rehabilitative services
+06.3.2|Long-term care services
+06.4|Other health services
+06.4.1|Medical diagnostic imaging services and medical laboratory services
+06.4.2|Patient transportation and emergency rescue
+07|Transport
+07.1|Purchase of vehicles
+07.1.1|Motor cars
+07.1.2|Motor cycles
+07.1.3|Bicycles
+07.1.4|Animal drawn vehicles
+07.2|Operation of personal transport equipment
+07.2.1|Parts and accessories for personal transport equipment
+07.2.2|Fuels and lubricants for personal transport equipment
+07.2.3|Maintenance and repair of personal transport equipment
+07.2.4|Other services in respect of personal transport equipment
+07.3|Passenger transport services
+07.3.1|Passenger transport by railway
+07.3.2|Passenger transport by road
+07.3.3|Passenger transport by air
+07.3.4|Passenger transport by sea and inland waterway
+07.3.5|Combined passenger transport
+07.3.6|Other purchased transport services
+07.4|Transport services of goods
+07.4.1|Letter handling services
+07.4.9|Other property transport services
+08|Information and communication
+08.1|Information and communication equipment
+08.1.1|Fixed telephone equipment
+08.1.2|Mobile telephone equipment
+08.1.3|Information processing equipment
+08.1.4|Recording media
+08.1.5|Equipment for the reception, recording and reproduction of sound and vision
+08.1.9|Other information and communication equipment
+08.2|Software excluding games
+08.2.0|Software excluding games
+08.3|Information and communication services
+08.3.1|Fixed communication services
+08.3.2|Mobile communication services
+08.3.3|Internet access provision services and net storage services
+08.3.4|Bundled telecommunication services
+08.3.5|Other information and communication services
+09|Recreation, sport and culture
+09.1|Recreational durables
+09.1.1|Major durables for outdoor and indoor recreation
+09.1.2|Musical instruments
+09.1.3|Maintenance and repair of recreational durables
+09.2|Other recreational goods
+09.2.1|Games, toys and hobbies
+09.2.2|Equipment for sport, camping and open-air recreation
+09.3|Garden products and pets
+09.3.1|Garden products, plants and flowers
+09.3.2|Pets and related products
+09.3.3|Veterinary and other services for pets
+09.4|Recreational services
+09.4.1|Recreational and sporting services
+09.4.2|Cultural services
+09.4.3|Games of chance
+09.5|Newspapers, books and stationery
+09.5.1|Books
+09.5.2|Newspapers and periodicals
+09.5.3|Miscellaneous printed matter
+09.5.4|Stationery and drawing materials
+09.6|Package holidays
+09.6.0|Package holidays
+10|Education services
+10.1|Early childhood and primary education
+10.1.0|Early childhood and primary education
+10.2|Secondary education
+10.2.0|Secondary education
+10.3|Post-secondary non-tertiary education
+10.3.0|Post-secondary non-tertiary education
+10.4|Tertiary education
+10.4.0|Tertiary education
+10.5|Education not defined by level
+10.5.0|Education not defined by level
+11|Restaurants and accommodation services
+11.1|Food and beverage serving services
+11.1.1|Restaurants, cafés and the like
+11.1.2|Canteens, cafeterias and other institutional food services
+11.2|Accommodation services
+11.2.0|Accommodation services
+12|Insurance and financial services
+12.1|Insurance
+12.1.1|Life insurance
+12.1.2|Insurance connected with the dwelling
+12.1.3|Insurance connected with health
+12.1.4|Insurance connected with transport
+12.1.5|Other insurance
+12.2|Financial services
+12.2.1|Explicit charges by deposit-taking corporations
+12.2.2|Fees and service charges of brokers, investment counsellors
+12.2.9|Other financial services
+13|Personal care, social protection and miscellaneous goods and services
+13.1|Personal care
+13.1.1|Hairdressing salons and personal grooming establishments
+13.1.2|Electrical appliances for personal care
+13.1.3|Other appliances, articles and products for personal care
+13.2|Other personal effects
+13.2.1|Jewellery and watches
+13.2.2|Other personal effects
+13.2.3|Repair, hire and cleaning of jewellery and personal effects
+13.3|Social protection
+13.3.0|Social protection
+13.9|Other services
+13.9.0|Other services
+`;
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { ModuleType, ProcessedRow } from '../types';
+import { awaitsSecondCoding, cohensKappa, computeLevelAgreement, drawDoubleCodingSample, isDisagreement } from './agreementService';
+
+const repeat = (pair: [string, string], times: number): [string, string][] => Array.from({ length: times }, () => pair);
+
+let nextKey = 0;
+const doubleCoded = (first: string, second: string): ProcessedRow => ({
+  rowKey: `row-${nextKey++}`,
+  codingStatus: 'coded',
+  doubleCoding: {
+    first: { code: first, label: '', coder: 'AI', codedAt: 0 },
+    second: { code: second, label: '', coder: 'Ana', codedAt: 0 }
+  }
+});
+
+describe('cohensKappa', () => {
+  it('corrects observed agreement for chance', () => {
+    const result = cohensKappa([
+      ...repeat(['A', 'A'], 20),
+      ...repeat(['A', 'B'], 5),
+      ...repeat(['B', 'A'], 10),
+      ...repeat(['B', 'B'], 15)
+    ]);
+    expect(result.pairs).toBe(50);
+    expect(result.agreed).toBe(35);
+    expect(result.observed).toBeCloseTo(0.7);
+    expect(result.expected).toBeCloseTo(0.5);
+    expect(result.kappa).toBeCloseTo(0.4);
+  });
+
+  it('is 1 for perfect agreement over several categories', () => {
+    expect(cohensKappa([['A', 'A'], ['B', 'B'], ['C', 'C']]).kappa).toBeCloseTo(1);
+  });
+
+  it('is undefined when both coders only ever use one category', () => {
+    expect(cohensKappa(repeat(['A', 'A'], 4)).kappa).toBeNull();
+  });
+
+  it('handles an empty sample', () => {
+    expect(cohensKappa([])).toEqual({ pairs: 0, agreed: 0, observed: 0, expected: 0, kappa: null });
+  });
+});
+
+describe('computeLevelAgreement', () => {
+  it('compares codes at every level of the hierarchy', () => {
+    // Same minor group (522), different unit groups
+    const levels = computeLevelAgreement([doubleCoded('5223', '5221'), doubleCoded('2341', '2341')], ModuleType.ISCO08);
+    const byLevel = Object.fromEntries(levels.map(l => [l.level, l]));
+    expect(byLevel[4]).toMatchObject({ pairs: 2, agreed: 1 });
+    expect(byLevel[3]).toMatchObject({ pairs: 2, agreed: 2 });
+    expect(byLevel[1]).toMatchObject({ pairs: 2, agreed: 2 });
+  });
+
+  it('uses zero-padded aggregates for SOC', () => {
+    const levels = computeLevelAgreement([doubleCoded('15-1252', '15-1251'), doubleCoded('15-1252', '15-1211')], ModuleType.SOC2018);
+    const byLevel = Object.fromEntries(levels.map(l => [l.level, l]));
+    expect(byLevel[4]).toMatchObject({ pairs: 2, agreed: 0 });
+    expect(byLevel[3]).toMatchObject({ pairs: 2, agreed: 1 }); // 15-1250
+    expect(byLevel[2]).toMatchObject({ pairs: 2, agreed: 2 }); // 15-1200
+    expect(byLevel[1]).toMatchObject({ pairs: 2, agreed: 2 }); // 15-0000
+  });
+});
+
+describe('isDisagreement', () => {
+  it('needs a second code that differs from the first', () => {
+    expect(isDisagreement(doubleCoded('5223', '5221'))).toBe(true);
+    expect(isDisagreement(doubleCoded('5223', '5223'))).toBe(false);
+    expect(isDisagreement({ ...doubleCoded('5223', ''), doubleCoding: { first: doubleCoded('5223', '').doubleCoding!.first } })).toBe(false);
+  });
+});
+
+describe('awaitsSecondCoding', () => {
+  it('holds for sampled rows until the second coding is in', () => {
+    const coded = doubleCoded('5223', '5221');
+    expect(awaitsSecondCoding({ ...coded, doubleCoding: { first: coded.doubleCoding!.first } })).toBe(true);
+    expect(awaitsSecondCoding(coded)).toBe(false);
+    expect(awaitsSecondCoding({ rowKey: 'x', codingStatus: 'coded' })).toBe(false);
+  });
+});
+
+describe('drawDoubleCodingSample', () => {
+  it('samples coded rows only, without rows that reuse another row\'s result', () => {
+    const rows: ProcessedRow[] = [
+      { rowKey: 'a', codingStatus: 'coded', result: { code: '5223', label: '', confidence: 'High', reasoning: '' } },
+      { rowKey: 'b', codingStatus: 'coded', result: { code: '5223', label: '', confidence: 'High', reasoning: '' }, sharedFrom: 'a' },
+      { rowKey: 'c', codingStatus: 'pending' },
+      { rowKey: 'd', codingStatus: 'coded', result: { code: '2341', label: '', confidence: 'High', reasoning: '' } }
+    ];
+    expect([...drawDoubleCodingSample(rows, 10)].sort()).toEqual(['a', 'd']);
+    expect(drawDoubleCodingSample(rows, 1).size).toBe(1);
+  });
+});
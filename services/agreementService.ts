@@ -0,0 +1,80 @@
+import { CoderDecision, ProcessedRow } from "../types";
+import { getAncestorCode, getLevelOptions, SingleModule } from "./hierarchyService";
+
+// Who produced a row's current result, as recorded on the first coding of a sample
+export const getFirstCoder = (row: ProcessedRow): string => {
+  if (row.manuallyEdited) return row.editedBy || 'Manual';
+  return row.result?.confidence === 'Reference' ? 'Knowledge base' : 'AI';
+};
+
+// Random sample of coded rows. Rows that only reuse another row's result are left out,
+// so identical inputs are not counted twice.
+export const drawDoubleCodingSample = (rows: ProcessedRow[], size: number): Set<string> => {
+  const pool = rows.filter(r => r.codingStatus === 'coded' && r.result?.code && !r.sharedFrom).map(r => r.rowKey);
+  const count = Math.min(Math.max(0, Math.floor(size)), pool.length);
+  // Partial Fisher-Yates shuffle
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return new Set(pool.slice(0, count));
+};
+
+export const toFirstDecision = (row: ProcessedRow): CoderDecision => ({
+  code: row.result?.code || '',
+  label: row.result?.label || '',
+  coder: getFirstCoder(row),
+  codedAt: Date.now()
+});
+
+export interface LevelAgreement {
+  level: number;
+  name: string;
+  pairs: number;    // Rows where both codes reach this level
+  agreed: number;
+  observed: number; // Share of pairs that agree
+  expected: number; // Agreement expected by chance from each coder's code distribution
+  kappa: number | null; // Cohen's kappa; null when chance agreement is total (a single category)
+}
+
+export const cohensKappa = (pairs: [string, string][]): Omit<LevelAgreement, 'level' | 'name'> => {
+  const n = pairs.length;
+  if (n === 0) return { pairs: 0, agreed: 0, observed: 0, expected: 0, kappa: null };
+  const firstCounts = new Map<string, number>();
+  const secondCounts = new Map<string, number>();
+  let agreed = 0;
+  pairs.forEach(([a, b]) => {
+    if (a === b) agreed++;
+    firstCounts.set(a, (firstCounts.get(a) || 0) + 1);
+    secondCounts.set(b, (secondCounts.get(b) || 0) + 1);
+  });
+  const observed = agreed / n;
+  let expected = 0;
+  firstCounts.forEach((count, code) => { expected += (count / n) * ((secondCounts.get(code) || 0) / n); });
+  const kappa = expected >= 1 ? null : (observed - expected) / (1 - expected);
+  return { pairs: n, agreed, observed, expected, kappa };
+};
+
+// Agreement between the first and second coding at every level of the classification,
+// most detailed first. Codes above a level (e.g. a 2-digit fallback) drop out of the finer levels.
+export const computeLevelAgreement = (rows: ProcessedRow[], module: SingleModule): LevelAgreement[] => {
+  const coded = rows.filter(r => r.doubleCoding?.second?.code);
+  return getLevelOptions(module).map(({ level, name }) => {
+    const pairs: [string, string][] = [];
+    coded.forEach(row => {
+      const first = getAncestorCode(row.doubleCoding!.first.code, module, level);
+      const second = getAncestorCode(row.doubleCoding!.second!.code, module, level);
+      if (first && second) pairs.push([first, second]);
+    });
+    return { level, name, ...cohensKappa(pairs) };
+  });
+};
+
+// Sampled rows whose result stays hidden so the second coding is blind
+export const awaitsSecondCoding = (row: ProcessedRow): boolean => !!row.doubleCoding && !row.doubleCoding.second;
+
+// Rows where the two coders chose different codes; these go to adjudication
+export const isDisagreement = (row: ProcessedRow): boolean => {
+  const coding = row.doubleCoding;
+  return !!coding?.second?.code && coding.first.code !== coding.second.code;
+};
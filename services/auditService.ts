@@ -0,0 +1,30 @@
+import { AISettings, CodedResult, ProcessedRow, RowChange } from "../types";
+import { getVoterId } from "./ensembleService";
+
+// Who produced an automatic result: the knowledge base, or the model(s) whose answer was used
+export const getCodingActor = (result: CodedResult, settings: AISettings): Pick<RowChange, 'source' | 'actor'> => {
+  const parts = result.dual ? [result.dual.isco, result.dual.isic] : [result];
+  if (parts.every(p => p.confidence === 'Reference')) return { source: 'knowledge-base', actor: 'Knowledge base' };
+  const models = result.ensemble
+    ? result.ensemble.votes.filter(vote => !vote.error).map(vote => vote.model)
+    : [getVoterId(settings)];
+  return { source: 'ai', actor: models.join(', ') };
+};
+
+// Appends to the log; earlier entries are never rewritten
+export const withChange = (row: ProcessedRow, change: Omit<RowChange, 'at'>): ProcessedRow => ({
+  ...row,
+  history: [...(row.history || []), { at: Date.now(), ...change }]
+});
+
+export interface AuditRecord {
+  row: ProcessedRow;
+  change: RowChange;
+  deleted: boolean;
+}
+
+// Every change of the session's rows, including deleted ones, in the order it happened
+export const getAuditTrail = (rows: ProcessedRow[], deletedRows: ProcessedRow[] = []): AuditRecord[] => [
+  ...rows.flatMap(row => (row.history || []).map(change => ({ row, change, deleted: false }))),
+  ...deletedRows.flatMap(row => (row.history || []).map(change => ({ row, change, deleted: true })))
+].sort((a, b) => a.change.at - b.change.at);
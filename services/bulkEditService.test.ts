@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { CodedResult, ModuleType, ProcessedRow } from '../types';
+import { combineDualResult } from './hierarchyService';
+import { findReplaceMatches, getTargetModule, getRowsChangedSince, recodeResult, resolveBulkCode, undoBulkEdit } from './bulkEditService';
+
+const coded = (code: string, confidence = 'High'): CodedResult => ({ code, label: `Label ${code}`, confidence, reasoning: '' });
+
+const row = (rowKey: string, primaryText: string, result?: CodedResult): ProcessedRow =>
+  ({ rowKey, primaryText, secondaryText: '', codingStatus: result ? 'coded' : 'pending', result });
+
+describe('findReplaceMatches', () => {
+  const rows = [
+    row('1', 'Shop assistant', coded('5223')),
+    row('2', 'Sales assistant in bakery', coded('5223')),
+    row('3', 'Shop manager', coded('1420')),
+    row('4', 'Shop assistant'),
+    row('5', 'Cashier', combineDualResult(coded('5230'), coded('G4711')))
+  ];
+  const keys = (matches: ProcessedRow[]) => matches.map(r => r.rowKey);
+
+  it('matches the code regardless of formatting', () => {
+    expect(keys(findReplaceMatches(rows, ' 52.23 ', '', 'isco'))).toEqual(['1', '2']);
+    expect(findReplaceMatches(rows, '', '', 'isco')).toEqual([]);
+  });
+
+  it('narrows by text, case-insensitively or by regular expression', () => {
+    expect(keys(findReplaceMatches(rows, '5223', 'SHOP', 'isco'))).toEqual(['1']);
+    expect(keys(findReplaceMatches(rows, '5223', '/^sales\\b/i', 'isco'))).toEqual(['2']);
+    expect(() => findReplaceMatches(rows, '5223', '/(/', 'isco')).toThrow();
+  });
+
+  it('matches every row with a global or sticky expression', () => {
+    const cashiers = ['cashier', 'cash clerk', 'cashier', 'cash'].map((text, i) => row(String(i), text, coded('5230')));
+    expect(findReplaceMatches(cashiers, '5230', '/cash/gi', 'isco')).toHaveLength(4);
+    expect(findReplaceMatches(cashiers, '5230', '/cash/y', 'isco')).toHaveLength(4);
+  });
+
+  it('compares the chosen half of dual results', () => {
+    expect(keys(findReplaceMatches(rows, 'G4711', '', 'isic'))).toEqual(['5']);
+    expect(keys(findReplaceMatches(rows, '5230', '', 'isco'))).toEqual(['5']);
+    expect(findReplaceMatches(rows, '5230', '', 'isic')).toEqual([]);
+  });
+});
+
+describe('resolveBulkCode', () => {
+  it('canonicalizes valid codes and rejects invalid ones', () => {
+    expect(resolveBulkCode(' 52.23 ', ModuleType.ISCO08).code).toBe('5223');
+    expect(() => resolveBulkCode('abc', ModuleType.ISCO08)).toThrow(/Invalid code/);
+  });
+
+  it('targets the chosen half in dual coding', () => {
+    expect(getTargetModule(ModuleType.DUAL, 'isic')).toBe(ModuleType.ISIC4);
+    expect(getTargetModule(ModuleType.ISCO08, 'isic')).toBe(ModuleType.ISCO08);
+  });
+});
+
+describe('recodeResult', () => {
+  it('replaces only the chosen half of a dual result', () => {
+    const result = recodeResult(combineDualResult(coded('5230'), coded('G4711')), { code: 'G4721', label: 'Food retail' }, 'Bulk replace', 'isic');
+    expect(result.dual?.isco.code).toBe('5230');
+    expect(result.dual?.isic).toMatchObject({ code: 'G4721', confidence: 'Manual', reasoning: 'Bulk replace' });
+    expect(result.code).toBe('ISCO: 5230 / ISIC: G4721');
+  });
+});
+
+describe('undoBulkEdit', () => {
+  const label = 'Replace 5223 with 5249 (1 rows)';
+  const before: ProcessedRow = { ...row('1', 'Shop assistant', coded('5223')), history: [{ at: 1, action: 'coded', source: 'ai', actor: 'model' }] };
+  const after: ProcessedRow = {
+    ...before,
+    result: coded('5249', 'Manual'),
+    manuallyEdited: true,
+    editedBy: 'Ana',
+    history: [...before.history!, { at: 2, action: 'edited', source: 'coder', actor: 'Ana', before: before.result, after: coded('5249', 'Manual'), note: label }]
+  };
+  const edit = { label, rows: [before] };
+
+  it('restores the saved coding and records the undo in history', () => {
+    const untouched = row('2', 'Cashier', coded('5230'));
+    const [restored, other] = undoBulkEdit([after, untouched], edit, 'Ana');
+
+    expect(restored).toMatchObject({ result: { code: '5223' }, codingStatus: 'coded', manuallyEdited: undefined, editedBy: undefined });
+    expect(restored.history?.map(change => change.action)).toEqual(['coded', 'edited', 'edited']);
+    expect(restored.history?.[2]).toMatchObject({ actor: 'Ana', note: `Undo: ${label}`, before: { code: '5249' }, after: { code: '5223' } });
+    expect(other).toBe(untouched);
+  });
+
+  it('keeps decisions made after the action and reports those rows', () => {
+    const reviewed: ProcessedRow = {
+      ...after,
+      reviewState: 'approved',
+      doubleCoding: { first: { code: '5249', label: '', coder: 'Ana', codedAt: 3 } },
+      history: [...after.history!, { at: 3, action: 'reviewed', source: 'coder', actor: 'Ben', note: 'Approved' }]
+    };
+    expect(getRowsChangedSince([after], edit)).toEqual([]);
+    expect(getRowsChangedSince([reviewed], edit)).toEqual([reviewed]);
+
+    const [restored] = undoBulkEdit([reviewed], edit, 'Ana');
+    expect(restored.result?.code).toBe('5223');
+    expect(restored.reviewState).toBe('approved');
+    expect(restored.doubleCoding).toBe(reviewed.doubleCoding);
+  });
+});
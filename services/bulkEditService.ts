@@ -0,0 +1,106 @@
+import { CodedResult, DualResult, ModuleType, ProcessedRow } from "../types";
+import { combineDualResult, validateCode, DUAL_PARTS, SingleModule } from "./hierarchyService";
+import { withChange } from "./auditService";
+
+// Classification a bulk code is checked against: the session's, or the chosen half in dual coding
+export const getTargetModule = (module: ModuleType, part: keyof DualResult): SingleModule =>
+  module === ModuleType.DUAL ? DUAL_PARTS.find(p => p.part === part)!.module : module as SingleModule;
+
+// Canonical code and label for a code typed by the user; throws when the classification does not have it
+export const resolveBulkCode = (rawCode: string, module: SingleModule): { code: string; label: string } => {
+  const { node, error } = validateCode(rawCode.trim(), module, 1);
+  if (!node) throw new Error(error);
+  return { code: node.code, label: node.label };
+};
+
+const normalizeCode = (code: string) => code.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+
+const getRowCode = (row: ProcessedRow, part: keyof DualResult): string =>
+  (row.result?.dual ? row.result.dual[part] : row.result)?.code || '';
+
+// A manual result with the new code; in dual coding only the given half changes
+export const recodeResult = (
+  result: CodedResult | undefined,
+  target: { code: string; label: string },
+  reasoning: string,
+  part: keyof DualResult
+): CodedResult => {
+  const recoded: CodedResult = { ...target, confidence: 'Manual', reasoning };
+  if (!result?.dual) return recoded;
+  const dual = { ...result.dual, [part]: recoded };
+  return combineDualResult(dual.isco, dual.isic);
+};
+
+// Plain text matches case-insensitively; "/.../flags" is a regular expression.
+// Throws on an invalid expression.
+export const buildTextFilter = (pattern: string): ((row: ProcessedRow) => boolean) => {
+  const trimmed = pattern.trim();
+  if (!trimmed) return () => true;
+  const literal = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  // "g" and "y" would carry lastIndex from one row to the next and skip matches
+  const regex = literal ? new RegExp(literal[1], literal[2].replace(/[gy]/g, '')) : null;
+  const needle = trimmed.toLowerCase();
+  return (row) => {
+    const text = `${row['primaryText'] || ''} ${row['secondaryText'] || ''}`;
+    return regex ? regex.test(text) : text.toLowerCase().includes(needle);
+  };
+};
+
+// Coded rows whose code (or the chosen half's code) is `fromCode` and whose text matches the pattern
+export const findReplaceMatches = (
+  rows: ProcessedRow[],
+  fromCode: string,
+  pattern: string,
+  part: keyof DualResult
+): ProcessedRow[] => {
+  const from = normalizeCode(fromCode);
+  if (!from) return [];
+  const matchesText = buildTextFilter(pattern);
+  return rows.filter(row => normalizeCode(getRowCode(row, part)) === from && matchesText(row));
+};
+
+// Snapshot taken before a bulk action so it can be undone
+export interface BulkEdit {
+  label: string;        // e.g. "Replace 5223 with 5249 (12 rows)"
+  rows: ProcessedRow[]; // Affected rows as they were before the action
+}
+
+export const UNDO_LIMIT = 20;
+
+// Affected rows a coder edited, reviewed or double-coded after the action (undoing earlier
+// bulk actions does not count); undoing would discard their later code
+export const getRowsChangedSince = (rows: ProcessedRow[], edit: BulkEdit): ProcessedRow[] => {
+  const saved = new Map(edit.rows.map(row => [row.rowKey, row]));
+  return rows.filter(row => {
+    const previous = saved.get(row.rowKey);
+    if (!previous) return false;
+    const later = (row.history || []).slice((previous.history || []).length);
+    return row.doubleCoding !== previous.doubleCoding ||
+      later.some(change => change.source === 'coder' && change.note !== edit.label && !change.note?.startsWith('Undo: '));
+  });
+};
+
+// Puts the saved rows' coding back. Everything else on the row, such as review and double-coding
+// decisions, stays as it is now; the history keeps the bulk change and gains an entry for the undo.
+export const undoBulkEdit = (rows: ProcessedRow[], edit: BulkEdit, actor: string): ProcessedRow[] => {
+  const saved = new Map(edit.rows.map(row => [row.rowKey, row]));
+  return rows.map(row => {
+    const previous = saved.get(row.rowKey);
+    if (!previous) return row;
+    return {
+      ...withChange(row, {
+        action: 'edited',
+        source: 'coder',
+        actor,
+        before: row.result,
+        after: previous.result,
+        note: `Undo: ${edit.label}`
+      }),
+      result: previous.result,
+      codingStatus: previous.codingStatus,
+      errorMessage: previous.errorMessage,
+      manuallyEdited: previous.manuallyEdited,
+      editedBy: previous.editedBy
+    };
+  });
+};
@@ -0,0 +1,314 @@
+import { ModuleType } from "../types";
+import { ISCO08_DATA, ISCO08_VERSION } from "../data/isco08";
+import { ISIC4_DATA, ISIC4_VERSION } from "../data/isic4";
+import { COICOP2018_DATA, COICOP2018_VERSION } from "../data/coicop2018";
+
+// Every coding scheme the app supports is declared here. To add one, give it an id in
+// ModuleType and a definition below; the sidebar, mapping screen, knowledge base,
+// prompts and validation all read from this registry.
+
+// What a mapped input column means for the scheme, e.g. "Job Title" for occupations
+export interface InputFieldRole {
+  name: string;  // Field name in batched prompts (e.g. "jobTitle")
+  label: string; // Shown on the mapping screen
+}
+
+// How codes are written and nested
+export interface ClassificationStructure {
+  levelNames: string[];    // Most aggregated first
+  levelExamples: string[];
+  codeFormat: RegExp;      // Normalized codes must match; the only check for schemes without a code list
+  levelOf: (code: string) => number;
+  normalize: (raw: string) => string;
+  // Ancestor of a normalized code at `level`; without it ancestors are the code's prefixes
+  ancestorOf?: (code: string, level: number) => string | null;
+}
+
+export interface ClassificationDefinition {
+  id: ModuleType;
+  name: string;        // Full name, e.g. "ISIC Rev. 4"
+  shortName: string;   // Sidebar label
+  description: string;
+  url: string;
+  version: string;     // Recorded on every validated result
+  structure?: ClassificationStructure; // Absent for composite schemes
+  hierarchy?: string;  // Bundled "code|label" list, parents first; without it labels are not checked
+  parts?: ModuleType[]; // Composite schemes (dual coding) code each part in its own scheme
+  prompt: {
+    expertise: string; // System prompt
+    task: string;      // Default single-row task; see PromptTemplate for the variables
+  };
+  fields: {
+    primary: InputFieldRole;
+    secondary: InputFieldRole;
+    tertiary?: InputFieldRole; // Extra column offered on the mapping screen
+  };
+}
+
+const digitsOnly = (raw: string) => raw.replace(/\D/g, '');
+
+// Section letter or dotted NACE code ("62", "62.0", "62.01"); models often drop the dots
+const normalizeNace = (raw: string) => {
+  const cleaned = raw.toUpperCase().replace(/\s/g, '');
+  if (/^[A-Z]$/.test(cleaned)) return cleaned;
+  const digits = digitsOnly(cleaned.replace(/^[A-Z](?=\d)/, ''));
+  return digits.length > 2 ? `${digits.slice(0, 2)}.${digits.slice(2)}` : digits;
+};
+
+// SOC codes are "15-1252"; trailing zeros mark the aggregate levels ("15-0000", "15-1200", "15-1250")
+const normalizeSoc = (raw: string) => {
+  const digits = digitsOnly(raw);
+  return digits.length === 6 ? `${digits.slice(0, 2)}-${digits.slice(2)}` : raw.trim();
+};
+
+const socLevel = (code: string) => {
+  const digits = digitsOnly(code);
+  if (digits.endsWith('0000')) return 1;
+  if (digits.endsWith('00')) return 2;
+  if (digits.endsWith('0')) return 3;
+  return 4;
+};
+
+// Aggregates keep the leading digits and pad the rest with zeros: "15-1252" -> "15-1250", "15-1200", "15-0000"
+const socAncestor = (code: string, level: number) => {
+  if (level < 1 || level > socLevel(code)) return null;
+  const digits = digitsOnly(code);
+  const kept = [2, 4, 5, 6][level - 1];
+  return normalizeSoc(digits.slice(0, kept).padEnd(6, '0'));
+};
+
+const OCCUPATION_FIELDS = {
+  primary: { name: "jobTitle", label: "Job Title" },
+  secondary: { name: "description", label: "Description" }
+};
+
+const ACTIVITY_FIELDS = {
+  primary: { name: "activity", label: "Activity" },
+  secondary: { name: "details", label: "Details" }
+};
+
+const OCCUPATION_TASK = `Classify Job Title: "{primary}", Description: "{secondary}".`;
+const ACTIVITY_TASK = `Classify Activity: "{primary}", Details: "{secondary}".`;
+
+export const CLASSIFICATIONS: ClassificationDefinition[] = [
+  {
+    id: ModuleType.ISCO08,
+    name: "ISCO-08",
+    shortName: ModuleType.ISCO08,
+    description: "International Standard Classification of Occupations (08). Used for classifying job titles.",
+    url: "https://www.ilo.org/public/english/bureau/stat/isco/isco08/",
+    version: ISCO08_VERSION,
+    hierarchy: ISCO08_DATA,
+    structure: {
+      levelNames: ['Major group', 'Sub-major group', 'Minor group', 'Unit group'],
+      levelExamples: ['2', '25', '251', '2512'],
+      codeFormat: /^\d{1,4}$/,
+      levelOf: (code) => code.length,
+      normalize: digitsOnly
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in ISCO-08.",
+      task: OCCUPATION_TASK
+    },
+    fields: OCCUPATION_FIELDS
+  },
+  {
+    id: ModuleType.ISIC4,
+    name: "ISIC Rev. 4",
+    shortName: ModuleType.ISIC4,
+    description: "International Standard Industrial Classification of All Economic Activities.",
+    url: "https://unstats.un.org/unsd/classifications/Econ/isic",
+    version: ISIC4_VERSION,
+    hierarchy: ISIC4_DATA,
+    structure: {
+      levelNames: ['Section', 'Division', 'Group', 'Class'],
+      levelExamples: ['J', '62', '620', '6201'],
+      codeFormat: /^([A-U]|\d{2,4})$/,
+      levelOf: (code) => /^[A-Z]$/.test(code) ? 1 : code.length,
+      normalize: (raw) => {
+        const cleaned = raw.toUpperCase().replace(/[\s.\-]/g, '');
+        if (/^[A-Z]$/.test(cleaned)) return cleaned;
+        // Models sometimes prefix the section letter (e.g. "J6201")
+        return digitsOnly(cleaned.replace(/^[A-Z](?=\d)/, ''));
+      }
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in ISIC Rev. 4.",
+      task: ACTIVITY_TASK
+    },
+    fields: ACTIVITY_FIELDS
+  },
+  {
+    id: ModuleType.COICOP,
+    name: "COICOP 2018",
+    shortName: ModuleType.COICOP,
+    description: "Classification of Individual Consumption According to Purpose.",
+    url: "https://unstats.un.org/unsd/classifications/Econ/coicop",
+    version: COICOP2018_VERSION,
+    hierarchy: COICOP2018_DATA,
+    structure: {
+      levelNames: ['Division', 'Group', 'Class'],
+      levelExamples: ['01', '01.1', '01.1.1'],
+      codeFormat: /^\d{2}(\.\d){0,2}$/,
+      levelOf: (code) => code.split('.').length,
+      normalize: (raw) => {
+        const trimmed = raw.trim();
+        if (trimmed.includes('.')) {
+          const [division, ...rest] = trimmed.split('.').map(digitsOnly);
+          return [division.padStart(2, '0'), ...rest].filter(Boolean).join('.');
+        }
+        // Undotted form: "0111" -> "01.1.1"
+        const digits = digitsOnly(trimmed);
+        if (digits.length < 2) return digits;
+        return [digits.slice(0, 2), ...digits.slice(2).split('')].join('.');
+      }
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in COICOP 2018.",
+      task: `Classify Item: "{primary}", Context: "{secondary}".`
+    },
+    fields: {
+      primary: { name: "item", label: "Item" },
+      secondary: { name: "context", label: "Context" }
+    }
+  },
+  {
+    id: ModuleType.DUAL,
+    name: "Dual Coding",
+    shortName: "Dual (ISCO+ISIC)",
+    description: "Simultaneous coding of Occupation (ISCO) and Industry (ISIC) for complex datasets.",
+    url: "#",
+    version: `${ISCO08_VERSION} + ${ISIC4_VERSION}`,
+    parts: [ModuleType.ISCO08, ModuleType.ISIC4],
+    prompt: {
+      expertise: "You are an expert statistician specializing in ISCO-08 and ISIC Rev. 4.",
+      task: `Perform DUAL CODING for: Job Title: "{primary}", Description: "{secondary}", Industry: "{tertiary}".
+      1. Classify the occupation in ISCO-08.
+      2. Classify the industry in ISIC Rev. 4.
+      Apply the protocol to each classification separately.`
+    },
+    fields: {
+      ...OCCUPATION_FIELDS,
+      tertiary: { name: "industry", label: "Industry" }
+    }
+  },
+  {
+    id: ModuleType.NACE2,
+    name: "NACE Rev. 2",
+    shortName: ModuleType.NACE2,
+    description: "Statistical Classification of Economic Activities in the European Community, derived from ISIC Rev. 4.",
+    url: "https://ec.europa.eu/eurostat/web/nace",
+    version: "NACE Rev. 2 (Eurostat, 2008)",
+    structure: {
+      levelNames: ['Section', 'Division', 'Group', 'Class'],
+      levelExamples: ['J', '62', '62.0', '62.01'],
+      codeFormat: /^([A-U]|\d{2}(\.\d{1,2})?)$/,
+      levelOf: (code) => /^[A-Z]$/.test(code) ? 1 : code.includes('.') ? code.length - 1 : 2,
+      normalize: normalizeNace
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in NACE Rev. 2.",
+      task: ACTIVITY_TASK
+    },
+    fields: ACTIVITY_FIELDS
+  },
+  {
+    id: ModuleType.ISCED11,
+    name: "ISCED 2011",
+    shortName: ModuleType.ISCED11,
+    description: "International Standard Classification of Education: levels of education programmes and qualifications.",
+    url: "https://uis.unesco.org/en/topic/international-standard-classification-education-isced",
+    version: "ISCED 2011 (UNESCO, 2011)",
+    structure: {
+      levelNames: ['Level', 'Category', 'Sub-category'],
+      levelExamples: ['3', '34', '344'],
+      codeFormat: /^[0-8]\d{0,2}$/,
+      levelOf: (code) => code.length,
+      normalize: digitsOnly
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in ISCED 2011 (education programmes, ISCED-P).",
+      task: `Classify Programme or Qualification: "{primary}", Details: "{secondary}".`
+    },
+    fields: {
+      primary: { name: "programme", label: "Programme / Qualification" },
+      secondary: { name: "details", label: "Details" }
+    }
+  },
+  {
+    id: ModuleType.SOC2018,
+    name: "SOC 2018",
+    shortName: ModuleType.SOC2018,
+    description: "US Standard Occupational Classification (2018).",
+    url: "https://www.bls.gov/soc/2018/",
+    version: "SOC 2018 (US BLS)",
+    structure: {
+      levelNames: ['Major group', 'Minor group', 'Broad occupation', 'Detailed occupation'],
+      levelExamples: ['15-0000', '15-1200', '15-1250', '15-1252'],
+      codeFormat: /^\d{2}-\d{4}$/,
+      levelOf: socLevel,
+      normalize: normalizeSoc,
+      ancestorOf: socAncestor
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in the US Standard Occupational Classification (SOC 2018).",
+      task: OCCUPATION_TASK
+    },
+    fields: OCCUPATION_FIELDS
+  },
+  {
+    id: ModuleType.ANZSCO,
+    name: "ANZSCO",
+    shortName: ModuleType.ANZSCO,
+    description: "Australian and New Zealand Standard Classification of Occupations.",
+    url: "https://www.abs.gov.au/statistics/classifications/anzsco-australian-and-new-zealand-standard-classification-occupations",
+    version: "ANZSCO (ABS/Stats NZ, 2022)",
+    structure: {
+      levelNames: ['Major group', 'Sub-major group', 'Minor group', 'Unit group', 'Occupation'],
+      levelExamples: ['2', '26', '261', '2613', '261313'],
+      codeFormat: /^(\d{1,4}|\d{6})$/,
+      levelOf: (code) => code.length === 6 ? 5 : code.length,
+      normalize: digitsOnly
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in ANZSCO.",
+      task: OCCUPATION_TASK
+    },
+    fields: OCCUPATION_FIELDS
+  },
+  {
+    id: ModuleType.CPC21,
+    name: "CPC Ver. 2.1",
+    shortName: ModuleType.CPC21,
+    description: "Central Product Classification: goods and services.",
+    url: "https://unstats.un.org/unsd/classifications/Econ/cpc",
+    version: "CPC Ver. 2.1 (UN, 2015)",
+    structure: {
+      levelNames: ['Section', 'Division', 'Group', 'Class', 'Subclass'],
+      levelExamples: ['0', '01', '011', '0111', '01111'],
+      codeFormat: /^\d{1,5}$/,
+      levelOf: (code) => code.length,
+      normalize: digitsOnly
+    },
+    prompt: {
+      expertise: "You are an expert statistician specializing in the Central Product Classification (CPC Ver. 2.1).",
+      task: `Classify Product: "{primary}", Details: "{secondary}".`
+    },
+    fields: {
+      primary: { name: "product", label: "Product" },
+      secondary: { name: "details", label: "Details" }
+    }
+  }
+];
+
+const REGISTRY = new Map(CLASSIFICATIONS.map(def => [def.id, def]));
+
+export const getClassification = (id: ModuleType): ClassificationDefinition => {
+  const def = REGISTRY.get(id);
+  if (!def) throw new Error(`Unknown classification: ${id}`);
+  return def;
+};
+
+// Schemes with their own dictionaries; composite schemes use their parts' dictionaries
+export const getDictionaryModules = (): ModuleType[] =>
+  CLASSIFICATIONS.filter(def => !def.parts).map(def => def.id);
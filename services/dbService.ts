@@ -1,12 +1,22 @@
-import { ModuleType, ReferenceEntry } from "../types";
+import { 
+  ModuleType, ReferenceEntry, CodingSession, SessionSummary, ProcessedRow, ReferenceQuery, ReferenceConflict, 
+  ReferenceVector, MatchMode, MatchSettings, ModuleSettings, PromptTemplate 
+} from "../types";
 import Fuse from 'fuse.js';
+import { normalizeInputText } from "../utils/textHelper";
+import { CLASSIFICATIONS } from "./classificationRegistry";
 
 const DB_NAME = 'StatCodeDB';
-const DB_VERSION = 1;
+export const DB_VERSION = 4;
 const STORE_NAME = 'reference_data';
+const SESSION_STORE = 'sessions';
+const SESSION_ROWS_STORE = 'session_rows';
+const VECTOR_STORE = 'reference_vectors';
+const PROMPT_STORE = 'prompt_templates';
 
-// In-memory cache for Fuse instances to avoid rebuilding index on every row during batch processing
+// In-memory caches to avoid rebuilding indexes on every row during batch processing; keys start with the module
 let fuseCache: Record<string, Fuse<ReferenceEntry>> = {};
+let termIndexCache: Record<string, Map<string, ReferenceEntry>> = {};
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -26,15 +36,41 @@ export const initDB = (): Promise<IDBDatabase> => {
         objectStore.createIndex('module', 'module', { unique: false });
         objectStore.createIndex('term', 'term', { unique: false });
       }
+      // v2: Coding sessions (metadata and rows kept apart so listing doesn't load 20k rows)
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const sessionStore = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        sessionStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(SESSION_ROWS_STORE)) {
+        db.createObjectStore(SESSION_ROWS_STORE, { keyPath: 'id' });
+      }
+      // v3: Embedding vectors for semantic retrieval, keyed by reference entry id
+      if (!db.objectStoreNames.contains(VECTOR_STORE)) {
+        const vectorStore = db.createObjectStore(VECTOR_STORE, { keyPath: 'id' });
+        vectorStore.createIndex('module', 'module', { unique: false });
+      }
+      // v4: Prompt template versions; every saved edit is a new record
+      if (!db.objectStoreNames.contains(PROMPT_STORE)) {
+        const promptStore = db.createObjectStore(PROMPT_STORE, { keyPath: 'id' });
+        promptStore.createIndex('module', 'module', { unique: false });
+      }
     };
   });
 };
 
+// Bumped on every change to reference data so derived indexes (e.g. vectors) can tell they are stale
+let referenceGeneration = 0;
+export const getReferenceGeneration = () => referenceGeneration;
+
 const invalidateCache = (module?: ModuleType) => {
+  referenceGeneration++;
   if (module) {
-    delete fuseCache[module];
+    const prefix = `${module}|`;
+    Object.keys(fuseCache).filter(k => k.startsWith(prefix)).forEach(k => delete fuseCache[k]);
+    Object.keys(termIndexCache).filter(k => k.startsWith(prefix)).forEach(k => delete termIndexCache[k]);
   } else {
     fuseCache = {};
+    termIndexCache = {};
   }
 };
 
@@ -58,6 +94,21 @@ export const addReferenceEntries = async (entries: ReferenceEntry[]): Promise<vo
   });
 };
 
+// All entries of a module, including learned entries still awaiting review
+export const listReferenceEntries = async (module: ModuleType): Promise<ReferenceEntry[]> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME], 'readonly');
+        const request = transaction.objectStore(STORE_NAME).index('module').getAll(module);
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Learned entries are only used for matching once a reviewer approved them
+const isApproved = (entry: ReferenceEntry) => entry.status !== 'pending';
+
 // Helper to fetch all entries for a specific module to build the fuzzy index
 const getEntriesByModule = async (module: ModuleType): Promise<ReferenceEntry[]> => {
     const db = await initDB();
@@ -67,44 +118,81 @@ const getEntriesByModule = async (module: ModuleType): Promise<ReferenceEntry[]>
         const index = store.index('module');
         const request = index.getAll(module);
 
-        request.onsuccess = () => resolve(request.result);
+        request.onsuccess = () => resolve((request.result as ReferenceEntry[]).filter(isApproved));
         request.onerror = () => reject(request.error);
     });
 };
 
-const getFuseInstance = async (module: ModuleType) => {
-    if (!fuseCache[module]) {
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+    mode: 'fuzzy',
+    autoCodeScore: 0.1, // 0.0 is exact, 0.1 allows very minor typos
+    searchThreshold: 0.4,
+    keys: ['term']
+};
+
+export const getMatchSettings = (moduleSettings?: ModuleSettings): MatchSettings => {
+    const matching = { ...DEFAULT_MATCH_SETTINGS, ...moduleSettings?.matching };
+    return { ...matching, keys: matching.keys.length > 0 ? matching.keys : DEFAULT_MATCH_SETTINGS.keys };
+};
+
+const getFuseInstance = async (module: ModuleType, matching: MatchSettings = DEFAULT_MATCH_SETTINGS) => {
+    const cacheKey = `${module}|${matching.keys.join(',')}|${matching.searchThreshold}`;
+    if (!fuseCache[cacheKey]) {
         const entries = await getEntriesByModule(module);
         if (entries.length === 0) return null;
 
         const options = {
-            keys: ['term'],
-            threshold: 0.4, // Default threshold for RAG suggestions
+            keys: matching.keys,
+            threshold: matching.searchThreshold,
             includeScore: true,
             ignoreLocation: true, // Search anywhere in the string
             useExtendedSearch: true,
             minMatchCharLength: 2 // Avoid matching single characters
         };
-        fuseCache[module] = new Fuse(entries, options);
+        fuseCache[cacheKey] = new Fuse(entries, options);
     }
-    return fuseCache[module];
+    return fuseCache[cacheKey];
 };
 
-// Returns exact-ish match (very low score) or null
-export const findReferenceMatch = async (term: string, module: ModuleType): Promise<ReferenceEntry | null> => {
-  try {
-    const fuse = await getFuseInstance(module);
-    if (!fuse) return null;
+const toMatchKey = (text: string, mode: MatchMode) => 
+    mode === 'exact' ? String(text ?? '').trim().toLowerCase() : normalizeInputText(text);
+
+// Lookup table from matchable text to entry; the first entry wins when several share a text
+const getTermIndex = async (module: ModuleType, mode: MatchMode, keys: MatchSettings['keys']) => {
+    const cacheKey = `${module}|${mode}|${keys.join(',')}`;
+    if (!termIndexCache[cacheKey]) {
+        const index = new Map<string, ReferenceEntry>();
+        (await getEntriesByModule(module)).forEach(entry => {
+            keys.forEach(key => {
+                const text = toMatchKey(entry[key], mode);
+                if (text && !index.has(text)) index.set(text, entry);
+            });
+        });
+        termIndexCache[cacheKey] = index;
+    }
+    return termIndexCache[cacheKey];
+};
 
+// Returns the entry that may auto-code `term` without the AI, or null
+export const findReferenceMatch = async (
+    term: string, 
+    module: ModuleType, 
+    matching: MatchSettings = DEFAULT_MATCH_SETTINGS
+): Promise<{ entry: ReferenceEntry, score: number } | null> => {
+  try {
     if (!term || term.trim() === '') return null;
 
-    const results = fuse.search(term);
+    const exactMode = matching.mode === 'exact' ? 'exact' : 'normalized';
+    const exact = (await getTermIndex(module, exactMode, matching.keys)).get(toMatchKey(term, exactMode));
+    if (exact) return { entry: exact, score: 0 };
+    if (matching.mode !== 'fuzzy') return null;
 
-    if (results.length > 0) {
-        // Strict threshold for "Auto-Code" without AI (0.0 is exact, 0.1 allows very minor typo)
-        if (results[0].score && results[0].score < 0.1) {
-            return results[0].item;
-        }
+    const fuse = await getFuseInstance(module, matching);
+    if (!fuse) return null;
+
+    const results = fuse.search(term);
+    if (results.length > 0 && (results[0].score ?? 1) <= matching.autoCodeScore) {
+        return { entry: results[0].item, score: results[0].score ?? 0 };
     }
     return null;
   } catch (e) {
@@ -114,17 +202,23 @@ export const findReferenceMatch = async (term: string, module: ModuleType): Prom
   }
 };
 
-// Returns top 3 similar entries for RAG (Retrieval Augmented Generation)
-export const findSimilarReferences = async (term: string, module: ModuleType): Promise<ReferenceEntry[]> => {
-    try {
-        const fuse = await getFuseInstance(module);
-        if (!fuse) return [];
-    
-        if (!term || term.trim() === '') return [];
+// Fuzzy term matches with Fuse scores (0 = exact, 1 = no match)
+export const searchReferences = async (
+    term: string, 
+    module: ModuleType, 
+    limit: number, 
+    matching?: MatchSettings
+): Promise<{ entry: ReferenceEntry, score: number }[]> => {
+    const fuse = await getFuseInstance(module, matching);
+    if (!fuse || !term || term.trim() === '') return [];
+    return fuse.search(term).slice(0, limit).map(r => ({ entry: r.item, score: r.score ?? 1 }));
+};
 
-        const results = fuse.search(term);
-        // Return top 3 matches to help the AI context
-        return results.slice(0, 3).map(r => r.item);
+// Returns the top similar entries for RAG (Retrieval Augmented Generation)
+export const findSimilarReferences = async (term: string, module: ModuleType, limit: number = 3): Promise<ReferenceEntry[]> => {
+    try {
+        const results = await searchReferences(term, module, limit);
+        return results.map(r => r.entry);
       } catch (e) {
           console.error(`[DB Service Error] findSimilarReferences failed for module: ${module}, term: "${term?.substring(0, 50)}..."`, e);
           return [];
@@ -140,15 +234,10 @@ export const getReferenceStats = async (): Promise<Record<ModuleType, number>> =
 
     request.onsuccess = () => {
       const data = request.result as ReferenceEntry[];
-      const stats: Record<string, number> = {
-        [ModuleType.ISCO08]: 0,
-        [ModuleType.ISIC4]: 0,
-        [ModuleType.COICOP]: 0,
-        [ModuleType.DUAL]: 0
-      };
+      const stats: Record<string, number> = Object.fromEntries(CLASSIFICATIONS.map(def => [def.id, 0]));
       
       data.forEach(d => {
-        if (stats[d.module] !== undefined) stats[d.module]++;
+        if (stats[d.module] !== undefined && isApproved(d)) stats[d.module]++;
       });
       
       resolve(stats as Record<ModuleType, number>);
@@ -160,8 +249,9 @@ export const getReferenceStats = async (): Promise<Record<ModuleType, number>> =
 export const clearReferenceData = async (module?: ModuleType): Promise<void> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const transaction = db.transaction([STORE_NAME, VECTOR_STORE], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
+      const vectorStore = transaction.objectStore(VECTOR_STORE);
       
       if (module) {
         // Delete only specific module data via cursor
@@ -172,6 +262,7 @@ export const clearReferenceData = async (module?: ModuleType): Promise<void> =>
                 const entry = cursor.value as ReferenceEntry;
                 if (entry.module === module) {
                     cursor.delete();
+                    vectorStore.delete(entry.id);
                 }
                 cursor.continue();
             }
@@ -181,6 +272,7 @@ export const clearReferenceData = async (module?: ModuleType): Promise<void> =>
             resolve();
         };
       } else {
+        vectorStore.clear();
         const request = store.clear();
         request.onsuccess = () => {
             invalidateCache();
@@ -189,4 +281,319 @@ export const clearReferenceData = async (module?: ModuleType): Promise<void> =>
         request.onerror = () => reject(request.error);
       }
     });
-};
\ No newline at end of file
+};
+
+// --- Embedding Vectors ---
+
+export const getReferenceVectors = async (module: ModuleType): Promise<ReferenceVector[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VECTOR_STORE], 'readonly');
+    const request = transaction.objectStore(VECTOR_STORE).index('module').getAll(module);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveReferenceVectors = async (vectors: ReferenceVector[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VECTOR_STORE], 'readwrite');
+    const store = transaction.objectStore(VECTOR_STORE);
+    vectors.forEach(v => store.put(v));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Knowledge Base Browser ---
+
+const getAllEntries = async (): Promise<ReferenceEntry[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const request = transaction.objectStore(STORE_NAME).getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const queryReferenceEntries = async (query: ReferenceQuery): Promise<{ entries: ReferenceEntry[]; total: number }> => {
+  const all = query.module ? await listReferenceEntries(query.module) : await getAllEntries();
+  const search = query.search?.trim().toLowerCase();
+  const codePrefix = query.codePrefix?.trim().toLowerCase();
+
+  const matches = all
+    .filter(e => !query.source || e.source === query.source)
+    .filter(e => !codePrefix || String(e.code).toLowerCase().startsWith(codePrefix))
+    .filter(e => !search || e.term?.toLowerCase().includes(search) || e.label?.toLowerCase().includes(search))
+    .sort((a, b) => (a.term || '').localeCompare(b.term || '') || String(a.code).localeCompare(String(b.code)));
+
+  return { entries: matches.slice(query.offset, query.offset + query.limit), total: matches.length };
+};
+
+export const findReferenceConflicts = async (module?: ModuleType): Promise<ReferenceConflict[]> => {
+  const all = module ? await listReferenceEntries(module) : await getAllEntries();
+  const groups = new Map<string, ReferenceEntry[]>();
+  all.forEach(entry => {
+    const key = `${entry.module}\u0000${normalizeInputText(entry.term)}`;
+    const group = groups.get(key);
+    if (group) group.push(entry);
+    else groups.set(key, [entry]);
+  });
+
+  return Array.from(groups.values())
+    .filter(entries => new Set(entries.map(e => e.code)).size > 1)
+    .map(entries => ({ 
+      module: entries[0].module, 
+      term: entries[0].term, 
+      entries: entries.sort((a, b) => b.addedAt - a.addedAt) 
+    }))
+    .sort((a, b) => a.term.localeCompare(b.term));
+};
+
+// --- Learned Entry Review ---
+
+export const getPendingEntries = async (): Promise<ReferenceEntry[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const request = transaction.objectStore(STORE_NAME).getAll();
+
+    request.onsuccess = () => {
+      const pending = (request.result as ReferenceEntry[]).filter(e => !isApproved(e));
+      resolve(pending.sort((a, b) => b.addedAt - a.addedAt));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const approveReferenceEntries = async (ids: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const modules = new Set<ModuleType>();
+
+    ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const entry = request.result as ReferenceEntry | undefined;
+        if (!entry) return;
+        modules.add(entry.module);
+        store.put({ ...entry, status: 'approved' });
+      };
+    });
+
+    transaction.oncomplete = () => {
+      modules.forEach(m => invalidateCache(m));
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteReferenceEntries = async (ids: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, VECTOR_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const vectorStore = transaction.objectStore(VECTOR_STORE);
+    ids.forEach(id => {
+      store.delete(id);
+      vectorStore.delete(id);
+    });
+
+    transaction.oncomplete = () => {
+      invalidateCache();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Deletes and adds in one transaction, so a failed add (quota, closed tab) rolls the deletes back.
+// `remove.module` clears all of that module's entries first, as clearReferenceData does.
+export const replaceReferenceEntries = async (
+  entries: ReferenceEntry[],
+  remove: { ids?: string[]; module?: ModuleType }
+): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, VECTOR_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const vectorStore = transaction.objectStore(VECTOR_STORE);
+    const putEntries = () => entries.forEach(entry => store.put(entry));
+
+    (remove.ids || []).forEach(id => {
+      store.delete(id);
+      vectorStore.delete(id);
+    });
+    if (remove.module) {
+      // New entries are written once the cursor is done, so it cannot delete them again
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          putEntries();
+          return;
+        }
+        const entry = cursor.value as ReferenceEntry;
+        if (entry.module === remove.module) {
+          cursor.delete();
+          vectorStore.delete(entry.id);
+        }
+        cursor.continue();
+      };
+    } else {
+      putEntries();
+    }
+
+    transaction.oncomplete = () => {
+      invalidateCache();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// --- Coding Sessions ---
+
+type SessionMeta = Omit<CodingSession, 'rows' | 'deletedRows'> & Pick<SessionSummary, 'totalRows' | 'codedRows'>;
+
+const toSummary = (meta: SessionMeta): SessionSummary => ({
+  id: meta.id,
+  name: meta.name,
+  module: meta.module,
+  totalRows: meta.totalRows,
+  codedRows: meta.codedRows,
+  createdAt: meta.createdAt,
+  updatedAt: meta.updatedAt
+});
+
+export const saveSession = async (session: CodingSession): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE, SESSION_ROWS_STORE], 'readwrite');
+    const { rows, deletedRows, ...rest } = session;
+
+    const meta: SessionMeta = {
+      ...rest,
+      totalRows: rows.length,
+      codedRows: rows.filter(r => r.codingStatus === 'coded').length
+    };
+    transaction.objectStore(SESSION_STORE).put(meta);
+    transaction.objectStore(SESSION_ROWS_STORE).put({ id: session.id, rows, deletedRows: deletedRows || [] });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Most recently updated first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE], 'readonly');
+    const request = transaction.objectStore(SESSION_STORE).getAll();
+
+    request.onsuccess = () => {
+      const sessions = (request.result as SessionMeta[]).map(toSummary);
+      resolve(sessions.sort((a, b) => b.updatedAt - a.updatedAt));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const loadSession = async (id: string): Promise<CodingSession | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE, SESSION_ROWS_STORE], 'readonly');
+    const metaRequest = transaction.objectStore(SESSION_STORE).get(id);
+    const rowsRequest = transaction.objectStore(SESSION_ROWS_STORE).get(id);
+
+    transaction.oncomplete = () => {
+      const meta = metaRequest.result as SessionMeta | undefined;
+      if (!meta) {
+        resolve(null);
+        return;
+      }
+      const { totalRows, codedRows, ...session } = meta;
+      // Sessions saved before rows had their own key used the (possibly duplicated) user ID
+      const rows: ProcessedRow[] = (rowsRequest.result?.rows || []).map((row: ProcessedRow) => 
+        row.rowKey ? row : { ...row, rowKey: crypto.randomUUID() }
+      );
+      resolve({ ...session, rows, deletedRows: rowsRequest.result?.deletedRows || [] });
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE], 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const meta = request.result as SessionMeta | undefined;
+      if (meta) store.put({ ...meta, name, updatedAt: Date.now() });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE, SESSION_ROWS_STORE], 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(id);
+    transaction.objectStore(SESSION_ROWS_STORE).delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Prompt Templates ---
+
+// All stored versions for a module, newest first
+export const getPromptTemplates = async (module: ModuleType): Promise<PromptTemplate[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROMPT_STORE], 'readonly');
+    const request = transaction.objectStore(PROMPT_STORE).index('module').getAll(module);
+
+    request.onsuccess = () => resolve((request.result as PromptTemplate[]).sort((a, b) => b.version - a.version));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getPromptTemplate = async (id: string): Promise<PromptTemplate | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROMPT_STORE], 'readonly');
+    const request = transaction.objectStore(PROMPT_STORE).get(id);
+
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Versions are never overwritten, so results stay reproducible
+export const addPromptTemplate = async (template: PromptTemplate): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROMPT_STORE], 'readwrite');
+    transaction.objectStore(PROMPT_STORE).add(template);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
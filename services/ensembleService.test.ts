@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { AIProvider, AISettings, CodedResult, ModuleType } from '../types';
+import { combineVotes, getEnsembleVoters, isDisputed, VoteInput } from './ensembleService';
+
+const voter = (model: string): AISettings => ({ provider: AIProvider.Local, model });
+
+const answer = (code: string, confidence = 'High'): CodedResult => ({ code, label: '', confidence, reasoning: 'because' });
+
+const vote = (model: string, code: string): VoteInput => ({ voter: voter(model), result: answer(code) });
+
+describe('combineVotes', () => {
+  it('picks the majority code and derives confidence from agreement', () => {
+    const result = combineVotes([vote('a', '5223'), vote('b', '2341'), vote('c', '5223')], ModuleType.ISCO08)!;
+    expect(result.code).toBe('5223');
+    expect(result.confidence).toBe('Medium');
+    expect(result.ensemble!.agreement).toBeCloseTo(2 / 3);
+    expect(result.reasoning).toMatch(/^Ensemble: 2\/3 models agree\./);
+  });
+
+  it('counts codes written differently as the same answer', () => {
+    const result = combineVotes([vote('a', '52.23'), vote('b', '5223')], ModuleType.ISCO08)!;
+    expect(result.ensemble!.agreement).toBe(1);
+    expect(result.confidence).toBe('High');
+    expect(result.ensemble!.votes.map(v => v.code)).toEqual(['5223', '5223']);
+  });
+
+  it('lets the earlier voter (the main provider) win a tie', () => {
+    const result = combineVotes([vote('main', '2341'), vote('b', '5223')], ModuleType.ISCO08)!;
+    expect(result.code).toBe('2341');
+    expect(result.confidence).toBe('Low');
+  });
+
+  it('records failed models without counting them', () => {
+    const result = combineVotes([
+      { voter: voter('a'), error: new Error('timeout') },
+      vote('b', '5223')
+    ], ModuleType.ISCO08)!;
+    expect(result.code).toBe('5223');
+    expect(result.ensemble!.agreement).toBe(1);
+    expect(result.ensemble!.votes[0]).toMatchObject({ model: 'LOCAL:a', error: 'timeout' });
+    // A single answer keeps the model's own confidence and still needs review
+    expect(result.confidence).toBe('High');
+    expect(isDisputed(result.ensemble!)).toBe(true);
+  });
+
+  it('returns null when no model answered', () => {
+    expect(combineVotes([{ voter: voter('a'), error: new Error('down') }], ModuleType.ISCO08)).toBeNull();
+  });
+});
+
+describe('isDisputed', () => {
+  it('accepts only unanimous answers from at least two models', () => {
+    const unanimous = combineVotes([vote('a', '5223'), vote('b', '5223')], ModuleType.ISCO08)!;
+    const split = combineVotes([vote('a', '5223'), vote('b', '2341')], ModuleType.ISCO08)!;
+    expect(isDisputed(unanimous.ensemble!)).toBe(false);
+    expect(isDisputed(split.ensemble!)).toBe(true);
+  });
+});
+
+describe('getEnsembleVoters', () => {
+  it('puts the main provider first and skips members without a model', () => {
+    const settings: AISettings = {
+      ...voter('main'),
+      ensemble: { enabled: true, members: [
+        { id: '1', provider: AIProvider.OpenAI, model: ' gpt-4o ' },
+        { id: '2', provider: AIProvider.DeepSeek, model: '' }
+      ] }
+    };
+    expect(getEnsembleVoters(settings).map(v => `${v.provider}:${v.model}`)).toEqual(['LOCAL:main', 'OPENAI:gpt-4o']);
+    expect(getEnsembleVoters({ ...settings, ensemble: { ...settings.ensemble!, enabled: false } })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { AISettings, CodedResult, EnsembleMember, EnsembleOutcome, ModelVote, ModuleType, ProcessedRow } from "../types";
+import { validateCodedResult, combineDualResult } from "./hierarchyService";
+
+export const getVoterId = (settings: AISettings): string => `${settings.provider}:${settings.model}`;
+
+// Settings for another model; throughput limits and retrieval stay those of the base settings
+export const withModel = (settings: AISettings, member: EnsembleMember): AISettings => ({
+  ...settings,
+  provider: member.provider,
+  model: member.model.trim(),
+  apiKey: member.apiKey,
+  baseUrl: member.baseUrl
+});
+
+// The main provider always votes first and breaks ties; members without a model are skipped
+export const getEnsembleVoters = (settings: AISettings): AISettings[] => {
+  if (!settings.ensemble?.enabled) return [settings];
+  const members = settings.ensemble.members
+    .filter(member => member.model.trim())
+    .map(member => withModel(settings, member));
+  return [settings, ...members];
+};
+
+export interface VoteInput {
+  voter: AISettings;
+  result?: CodedResult;
+  error?: unknown;
+}
+
+// Rows go to the review queue unless at least two models answered and all of them agree
+export const isDisputed = (ensemble: EnsembleOutcome): boolean =>
+  ensemble.agreement < 1 || ensemble.votes.filter(vote => !vote.error).length < 2;
+
+const toConfidence = (agreement: number, answered: number, own: string): string => {
+  if (answered < 2) return own;
+  if (agreement === 1) return 'High';
+  return agreement > 0.5 ? 'Medium' : 'Low';
+};
+
+// Majority vote over the models' answers. Codes are compared after validation, so "25.12" and
+// "2512" count as the same answer. Returns null when no model answered.
+export const combineVotes = (inputs: VoteInput[], module: ModuleType, minLevel?: number): CodedResult | null => {
+  const votes: ModelVote[] = [];
+  const answers: { code: string; result: CodedResult }[] = [];
+  inputs.forEach(({ voter, result, error }) => {
+    const model = getVoterId(voter);
+    if (!result) {
+      votes.push({ model, code: '', label: '', confidence: '', error: error instanceof Error ? error.message : String(error || 'No answer') });
+      return;
+    }
+    const { result: validated } = validateCodedResult(result, module, minLevel);
+    votes.push({ model, code: validated.code, label: validated.label, confidence: result.confidence });
+    answers.push({ code: validated.code, result });
+  });
+  if (answers.length === 0) return null;
+
+  // Map keeps insertion order, so on a tie the earlier voter (the main provider first) wins
+  const counts = new Map<string, number>();
+  answers.forEach(({ code }) => counts.set(code, (counts.get(code) || 0) + 1));
+  const [winner, winnerVotes] = [...counts].reduce((best, entry) => entry[1] > best[1] ? entry : best);
+  const chosen = answers.find(({ code }) => code === winner)!.result;
+  const agreement = winnerVotes / answers.length;
+  const confidence = toConfidence(agreement, answers.length, chosen.confidence);
+  const ensemble: EnsembleOutcome = { votes, agreement };
+  const reasoning = `Ensemble: ${winnerVotes}/${answers.length} models agree. ${chosen.reasoning || ''}`.trim();
+
+  if (chosen.dual) {
+    // Knowledge base halves keep their Reference confidence
+    const withConfidence = (part: CodedResult): CodedResult => part.confidence === 'Reference' ? part : { ...part, confidence };
+    return {
+      ...combineDualResult(withConfidence(chosen.dual.isco), withConfidence(chosen.dual.isic)),
+      promptVersion: chosen.promptVersion,
+      candidates: chosen.candidates,
+      ensemble
+    };
+  }
+  return { ...chosen, confidence, reasoning, ensemble };
+};
+
+export interface CodeAgreement {
+  code: string;
+  label: string;
+  rows: number;      // Ensemble-coded rows with this final code
+  agreement: number; // Mean agreement over those rows
+  unanimous: number; // Rows where every answering model chose the code
+}
+
+// Per-code agreement for the dashboard, least agreed codes first
+export const summarizeAgreement = (rows: ProcessedRow[]): CodeAgreement[] => {
+  const byCode = new Map<string, CodeAgreement>();
+  rows.forEach(row => {
+    const ensemble = row.result?.ensemble;
+    if (!ensemble || row.codingStatus !== 'coded') return;
+    const entry = byCode.get(row.result!.code) || { code: row.result!.code, label: row.result!.label, rows: 0, agreement: 0, unanimous: 0 };
+    entry.agreement = (entry.agreement * entry.rows + ensemble.agreement) / (entry.rows + 1);
+    entry.rows += 1;
+    if (ensemble.agreement === 1) entry.unanimous += 1;
+    byCode.set(entry.code, entry);
+  });
+  return [...byCode.values()].sort((a, b) => a.agreement - b.agreement || b.rows - a.rows);
+};
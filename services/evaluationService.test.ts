@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ModuleType } from '../types';
+import { buildEvaluationReport, EvaluationPrediction, GoldItem, isCorrect, normalizeGoldCode } from './evaluationService';
+
+const gold = (id: string, goldCode: string): GoldItem => ({ id, primaryText: `text ${id}`, secondaryText: '', goldCode });
+
+const predicted = (itemId: string, code: string, confidence: string, correct: boolean, extra: Partial<EvaluationPrediction> = {}): EvaluationPrediction => ({
+  itemId, code, label: '', confidence, correct, latencyMs: 100, tokens: 500, ...extra
+});
+
+describe('isCorrect', () => {
+  it('ignores formatting differences', () => {
+    expect(isCorrect('5223', '52.23', ModuleType.ISCO08)).toBe(true);
+    expect(isCorrect('15-1252', '151252', ModuleType.SOC2018)).toBe(true);
+    expect(isCorrect('5223', '5221', ModuleType.ISCO08)).toBe(false);
+  });
+
+  it('judges at the gold code\'s own level', () => {
+    // A detailed answer inside a coarse gold code is right; a coarse answer to a detailed gold code is not
+    expect(isCorrect('52', '5223', ModuleType.ISCO08)).toBe(true);
+    expect(isCorrect('5223', '52', ModuleType.ISCO08)).toBe(false);
+    expect(isCorrect('5223', '', ModuleType.ISCO08)).toBe(false);
+  });
+});
+
+describe('normalizeGoldCode', () => {
+  it('canonicalizes valid codes and keeps others as given', () => {
+    expect(normalizeGoldCode(' 52.23 ', ModuleType.ISCO08)).toBe('5223');
+    expect(normalizeGoldCode('151252', ModuleType.SOC2018)).toBe('15-1252');
+    expect(normalizeGoldCode('n/a', ModuleType.ISCO08)).toBe('n/a');
+  });
+});
+
+describe('buildEvaluationReport', () => {
+  const items = [gold('1', '5223'), gold('2', '5223'), gold('3', '2341'), gold('4', '2341')];
+  const predictions = [
+    predicted('1', '5223', 'High', true),
+    predicted('2', '5221', 'High', false),
+    predicted('3', '2341', 'Medium', true, { latencyMs: 300 }),
+    predicted('4', '', '', false, { error: 'timeout', tokens: 100 })
+  ];
+  const report = buildEvaluationReport(items, predictions, ModuleType.ISCO08, 'LOCAL:test · v1', 'v1', 2);
+
+  it('scores accuracy per level, most detailed last in the level list', () => {
+    const byLevel = Object.fromEntries(report.accuracy.map(a => [a.level, a]));
+    expect(byLevel[4]).toMatchObject({ correct: 2, total: 4 });
+    expect(byLevel[3]).toMatchObject({ correct: 3, total: 4 });
+  });
+
+  it('buckets calibration with the same correctness as accuracy', () => {
+    const byConfidence = Object.fromEntries(report.calibration.map(c => [c.confidence, c]));
+    expect(byConfidence.High).toMatchObject({ count: 2, correct: 1, rate: 0.5 });
+    expect(byConfidence.Medium).toMatchObject({ count: 1, correct: 1 });
+    expect(byConfidence.Low.count).toBe(0);
+  });
+
+  it('lists wrong answers and failures as top errors', () => {
+    expect(report.topErrors).toEqual(expect.arrayContaining([
+      { gold: '5223', predicted: '5221', count: 1 },
+      { gold: '2341', predicted: '(error)', count: 1 }
+    ]));
+    expect(report.topErrors).toHaveLength(2);
+  });
+
+  it('reports failures, latency of answered rows and cost', () => {
+    expect(report.errors).toBe(1);
+    expect(report.meanLatencyMs).toBe(500 / 3);
+    expect(report.meanTokens).toBe(400);
+    // 400 tokens × 1000 rows × $2 per million
+    expect(report.costPer1000Rows).toBeCloseTo(0.8);
+    expect(buildEvaluationReport(items, predictions, ModuleType.ISCO08, 'x', 'v1').costPer1000Rows).toBeNull();
+  });
+});
@@ -0,0 +1,233 @@
+import { AISettings, EnsembleMember, PromptTemplate, ReferenceEntry } from "../types";
+import { codeSingleOccupation, estimateCodingTokens } from "./geminiService";
+import { getAncestorCode, getLevelOptions, validateCode, validateCodedResult, SingleModule } from "./hierarchyService";
+import { getProviderLimits, createRateLimiter, runJobQueue, withRetry, isAbortError } from "./jobQueue";
+import { withModel, getVoterId } from "./ensembleService";
+
+declare const XLSX: any;
+
+// One row of a gold-coded file
+export interface GoldItem {
+  id: string;
+  primaryText: string;
+  secondaryText: string;
+  goldCode: string; // Canonical when valid; kept as given otherwise
+}
+
+// A model and prompt to evaluate; an empty promptId uses the active template
+export interface EvaluationConfig extends EnsembleMember {
+  promptId?: string;
+  pricePerMillionTokens?: number; // Blended input/output price; no cost estimate without it
+}
+
+export interface EvaluationPrediction {
+  itemId: string;
+  code: string;
+  label: string;
+  confidence: string;
+  correct: boolean;  // Matches the gold code at the gold code's own level
+  latencyMs: number; // Duration of the successful request, excluding rate-limit waits
+  tokens: number;    // Estimated prompt and response tokens
+  error?: string;
+}
+
+export interface EvaluationReport {
+  name: string;     // "<provider>:<model> · <prompt>"
+  promptVersion: string;
+  items: number;
+  errors: number;
+  accuracy: { level: number; name: string; correct: number; total: number; rate: number }[]; // Most detailed first
+  calibration: { confidence: string; count: number; correct: number; rate: number }[];
+  topErrors: { gold: string; predicted: string; count: number }[];
+  meanLatencyMs: number;
+  p95LatencyMs: number;
+  meanTokens: number;
+  costPer1000Rows: number | null; // Estimated tokens × the configured price; null without a price
+}
+
+export const normalizeGoldCode = (raw: string, module: SingleModule): string => {
+  const { node } = validateCode(String(raw || '').trim(), module, 1);
+  return node?.code || String(raw || '').trim();
+};
+
+const isCorrectAt = (gold: string, predicted: string, module: SingleModule, level: number): boolean | null => {
+  const goldAncestor = getAncestorCode(gold, module, level);
+  // Gold codes coarser than the level say nothing about it
+  if (!goldAncestor) return null;
+  return !!predicted && getAncestorCode(predicted, module, level) === goldAncestor;
+};
+
+// The accuracy table's check at the gold code's own level, so "5223" and "52.23" are the same answer
+export const isCorrect = (gold: string, predicted: string, module: SingleModule): boolean => {
+  const { node } = validateCode(gold, module, 1);
+  return !!node && isCorrectAt(gold, predicted, module, node.level) === true;
+};
+
+// Codes every gold item with one configuration, respecting that provider's rate limits.
+// Failed rows are recorded as errors and count as wrong answers.
+export const runEvaluation = async (
+  items: GoldItem[],
+  module: SingleModule,
+  settings: AISettings,
+  config: EvaluationConfig,
+  template: PromptTemplate,
+  options: {
+    getExamples?: (item: GoldItem) => Promise<ReferenceEntry[]>;
+    onPrediction?: (prediction: EvaluationPrediction) => void;
+    shouldStop?: () => boolean;
+  } = {}
+): Promise<EvaluationPrediction[]> => {
+  const modelSettings = withModel(settings, config);
+  const limits = getProviderLimits(modelSettings);
+  const limiter = createRateLimiter(limits);
+  const predictions: EvaluationPrediction[] = [];
+
+  await runJobQueue(items, async (item) => {
+    const examples = options.getExamples ? await options.getExamples(item) : [];
+    const tokens = estimateCodingTokens(item.primaryText, item.secondaryText, examples);
+    let latencyMs = 0;
+    let prediction: EvaluationPrediction;
+    try {
+      const result = await withRetry(async () => {
+        await limiter.acquire(tokens, options.shouldStop);
+        const started = performance.now();
+        const coded = await codeSingleOccupation(item.primaryText, item.secondaryText, module, modelSettings, undefined, examples, undefined, template);
+        latencyMs = performance.now() - started;
+        return coded;
+      }, { maxRetries: limits.maxRetries, shouldAbort: options.shouldStop });
+      const { result: validated } = validateCodedResult(result, module);
+      prediction = { 
+        itemId: item.id, code: validated.code, label: validated.label, confidence: result.confidence, 
+        correct: isCorrect(item.goldCode, validated.code, module), latencyMs, tokens 
+      };
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(`[Evaluation] ${getVoterId(modelSettings)} failed for item ${item.id}`, error);
+      prediction = { itemId: item.id, code: '', label: '', confidence: '', correct: false, latencyMs, tokens, error: error instanceof Error ? error.message : String(error) };
+    }
+    predictions.push(prediction);
+    options.onPrediction?.(prediction);
+  }, { concurrency: limits.concurrency, shouldStop: options.shouldStop || (() => false) });
+
+  return predictions;
+};
+
+const TOP_ERRORS = 10;
+
+export const buildEvaluationReport = (
+  items: GoldItem[],
+  predictions: EvaluationPrediction[],
+  module: SingleModule,
+  name: string,
+  promptVersion: string,
+  pricePerMillionTokens?: number
+): EvaluationReport => {
+  const byId = new Map(predictions.map(p => [p.itemId, p]));
+  const scored = items.map(item => ({ item, prediction: byId.get(item.id) })).filter(({ prediction }) => prediction) as
+    { item: GoldItem; prediction: EvaluationPrediction }[];
+
+  const accuracy = getLevelOptions(module).map(({ level, name: levelName }) => {
+    let correct = 0;
+    let total = 0;
+    scored.forEach(({ item, prediction }) => {
+      const result = isCorrectAt(item.goldCode, prediction.code, module, level);
+      if (result === null) return;
+      total++;
+      if (result) correct++;
+    });
+    return { level, name: levelName, correct, total, rate: total > 0 ? correct / total : 0 };
+  });
+
+  const calibration = ['High', 'Medium', 'Low'].map(confidence => {
+    const group = scored.filter(({ prediction }) => prediction.confidence === confidence);
+    const correct = group.filter(({ prediction }) => prediction.correct).length;
+    return { confidence, count: group.length, correct, rate: group.length > 0 ? correct / group.length : 0 };
+  });
+
+  const errorCounts = new Map<string, { gold: string; predicted: string; count: number }>();
+  scored.forEach(({ item, prediction }) => {
+    if (prediction.correct) return;
+    const predicted = prediction.error ? '(error)' : normalizeGoldCode(prediction.code, module) || '(none)';
+    const key = `${item.goldCode}|${predicted}`;
+    const entry = errorCounts.get(key) || { gold: item.goldCode, predicted, count: 0 };
+    entry.count++;
+    errorCounts.set(key, entry);
+  });
+  const topErrors = [...errorCounts.values()].sort((a, b) => b.count - a.count).slice(0, TOP_ERRORS);
+
+  const answered = scored.filter(({ prediction }) => !prediction.error).map(({ prediction }) => prediction);
+  const latencies = answered.map(p => p.latencyMs).sort((a, b) => a - b);
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const meanTokens = mean(scored.map(({ prediction }) => prediction.tokens));
+
+  return {
+    name,
+    promptVersion,
+    items: scored.length,
+    errors: scored.length - answered.length,
+    accuracy,
+    calibration,
+    topErrors,
+    meanLatencyMs: mean(latencies),
+    p95LatencyMs: latencies.length > 0 ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] : 0,
+    meanTokens,
+    costPer1000Rows: pricePerMillionTokens ? (meanTokens * 1000 * pricePerMillionTokens) / 1e6 : null
+  };
+};
+
+export const getConfigName = (config: EvaluationConfig, template: PromptTemplate): string =>
+  `${config.provider}:${config.model} · v${template.version}`;
+
+// Side-by-side comparison of evaluated configurations: a summary sheet, every prediction and the top errors
+export const exportEvaluationReport = (
+  runs: { report: EvaluationReport; predictions: EvaluationPrediction[] }[],
+  items: GoldItem[],
+  baseFilename: string
+) => {
+  if (runs.length === 0) return;
+
+  const summary = runs.map(({ report }) => ({
+    Configuration: report.name,
+    Prompt_Version: report.promptVersion,
+    Items: report.items,
+    Errors: report.errors,
+    ...Object.fromEntries(report.accuracy.map(a => [`Accuracy_L${a.level}`, Number(a.rate.toFixed(4))])),
+    ...Object.fromEntries(report.calibration.flatMap(c => [
+      [`${c.confidence}_Count`, c.count],
+      [`${c.confidence}_Accuracy`, Number(c.rate.toFixed(4))]
+    ])),
+    Mean_Latency_ms: Math.round(report.meanLatencyMs),
+    P95_Latency_ms: Math.round(report.p95LatencyMs),
+    Mean_Tokens: Math.round(report.meanTokens),
+    Est_Cost_per_1000_Rows: report.costPer1000Rows === null ? '' : Number(report.costPer1000Rows.toFixed(4))
+  }));
+
+  const byRun = runs.map(({ predictions }) => new Map(predictions.map(p => [p.itemId, p])));
+  const predictions = items.map(item => ({
+    ID: item.id,
+    Input_Text: item.primaryText,
+    Context: item.secondaryText,
+    Gold_Code: item.goldCode,
+    ...Object.fromEntries(runs.flatMap(({ report }, i) => {
+      const prediction = byRun[i].get(item.id);
+      return [
+        [`${report.name} Code`, prediction?.error ? 'ERROR' : prediction?.code || ''],
+        [`${report.name} Confidence`, prediction?.confidence || ''],
+        [`${report.name} Correct`, prediction ? (prediction.correct ? 'Yes' : 'No') : '']
+      ];
+    }))
+  }));
+
+  const errors = runs.flatMap(({ report }) => report.topErrors.map(e => ({
+    Configuration: report.name,
+    Gold_Code: e.gold,
+    Predicted_Code: e.predicted,
+    Count: e.count
+  })));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summary), "Summary");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(predictions), "Predictions");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(errors), "Top Errors");
+  XLSX.writeFile(workbook, `${baseFilename}.xlsx`);
+};
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIProvider, AISettings, ModuleType } from '../types';
+import { codeBatch, CodingBatchItem } from './geminiService';
+
+const settings: AISettings = { provider: AIProvider.Local, model: 'test-model', baseUrl: 'http://localhost/v1/chat/completions' };
+
+const item = (id: string, primaryText: string): CodingBatchItem => ({ id, primaryText, secondaryText: '' });
+
+// Answers every request with the given JSON as the model's message
+const stubModel = (json: unknown) => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(json) } }] })));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('codeBatch', () => {
+  it('matches results back to items by id, not by position', async () => {
+    stubModel({ results: [
+      { id: 'b', code: '2341', label: 'Primary school teachers', confidence: 'High', reasoning: '' },
+      { id: 'a', code: '5223', label: 'Shop sales assistants', confidence: 'Medium', reasoning: '' }
+    ] });
+
+    const results = await codeBatch([item('a', 'cashier'), item('b', 'teacher')], ModuleType.ISCO08, settings);
+
+    expect(results.a.code).toBe('5223');
+    expect(results.b.code).toBe('2341');
+  });
+
+  it('drops unknown ids, duplicates and entries without a code', async () => {
+    stubModel({ results: [
+      { id: 'a', code: '5223', label: 'first', confidence: 'High' },
+      { id: 'a', code: '9999', label: 'duplicate', confidence: 'High' },
+      { id: 'x', code: '1111', label: 'unknown', confidence: 'High' },
+      { id: 'b', code: '', label: 'empty', confidence: 'Low' }
+    ] });
+
+    const results = await codeBatch([item('a', 'cashier'), item('b', 'teacher')], ModuleType.ISCO08, settings);
+
+    expect(Object.keys(results)).toEqual(['a']);
+    expect(results.a.label).toBe('first');
+  });
+
+  it('sends every item in a single request', async () => {
+    const fetchMock = stubModel({ results: [] });
+
+    await codeBatch([item('a', 'cashier'), item('b', 'teacher'), item('c', 'nurse')], ModuleType.ISCO08, settings);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    const userPrompt: string = body.messages[1].content;
+    expect(userPrompt).toContain('"cashier"');
+    expect(userPrompt).toContain('"nurse"');
+  });
+});
@@ -1,5 +1,11 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { CodedResult, ModuleType, AISettings, AIProvider, SearchResult, ReferenceEntry } from "../types";
+import { 
+  CodedResult, ModuleType, AISettings, AIProvider, SearchResult, ReferenceEntry, PromptTemplate, CodeCandidate, DualResult 
+} from "../types";
+import { getLevelOptions, getLeafLevel, combineDualResult } from "./hierarchyService";
+import { getClassification } from "./classificationRegistry";
+import { getDefaultPromptTemplate, renderInstructions, renderTask, hasCustomTask } from "./promptTemplates";
+import { estimateTokens } from "./jobQueue";
 
 // Helper to initialize Gemini client (safe if env key is missing, will throw later if used)
 const getGeminiClient = (apiKey?: string) => {
@@ -19,6 +25,10 @@ const codingResponseSchema: Schema = {
       type: Type.STRING,
       description: "The official label for the code.",
     },
+    level: {
+      type: Type.INTEGER,
+      description: "Hierarchy level of the returned code (e.g. 4 for an ISCO unit group, 2 for a sub-major group).",
+    },
     confidence: {
       type: Type.STRING,
       enum: ["High", "Medium", "Low"],
@@ -28,8 +38,112 @@ const codingResponseSchema: Schema = {
       type: Type.STRING,
       description: "Brief explanation of why this code was chosen over alternatives.",
     },
+    candidates: {
+      type: Type.ARRAY,
+      description: "The top 3 codes considered, best first, including the selected code.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          code: { type: Type.STRING },
+          label: { type: Type.STRING },
+          score: { type: Type.NUMBER, description: "Likelihood that this code is correct, between 0 and 1." },
+        },
+        required: ["code", "label", "score"],
+      },
+    },
+  },
+  required: ["code", "label", "level", "confidence", "candidates"],
+};
+
+// Field list for providers without a response schema
+const RESULT_FIELDS = "code (string), label (string), level (integer), confidence (High/Medium/Low), reasoning (string), candidates (array of the top 3 codes considered, best first, each { code, label, score (0-1) })";
+
+// Dual coding returns one full result per classification
+const dualResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    isco: { ...codingResponseSchema, description: "ISCO-08 result for the job title." },
+    isic: { ...codingResponseSchema, description: "ISIC Rev. 4 result for the industry." },
+  },
+  required: ["isco", "isic"],
+};
+
+const batchResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: {
+            type: Type.STRING,
+            description: "The id of the input item this result belongs to.",
+          },
+          ...codingResponseSchema.properties,
+        },
+        required: ["id", ...(codingResponseSchema.required || [])],
+      },
+    },
+  },
+  required: ["results"],
+};
+
+const dualBatchResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: {
+            type: Type.STRING,
+            description: "The id of the input item this result belongs to.",
+          },
+          ...dualResponseSchema.properties,
+        },
+        required: ["id", ...(dualResponseSchema.required || [])],
+      },
+    },
   },
-  required: ["code", "label", "confidence"],
+  required: ["results"],
+};
+
+const MAX_CANDIDATES = 5;
+
+// Keeps well-formed candidates, best first; some models send scores as percentages
+const toCandidates = (raw: any, part?: keyof DualResult): CodeCandidate[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(c => c && c.code !== undefined && String(c.code).trim() !== '')
+    .map(c => {
+      const score = Number(c.score);
+      return {
+        code: String(c.code).trim(),
+        label: String(c.label || ''),
+        score: Number.isFinite(score) ? Math.min(Math.max(score > 1 ? score / 100 : score, 0), 1) : 0,
+        ...(part ? { part } : {})
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+};
+
+const toCodedResult = (json: any): CodedResult => {
+  const { candidates, ...result } = json;
+  const ranked = toCandidates(candidates);
+  return { ...result, candidates: ranked.length > 0 ? ranked : undefined };
+};
+
+// Builds the structured dual result, or null when either half is missing.
+// Each half's candidates are tagged with their part and listed on the combined result.
+const toDualResult = (json: any): CodedResult | null => {
+  if (!json?.isco?.code || !json?.isic?.code) return null;
+  const { candidates: iscoCandidates, ...isco } = json.isco;
+  const { candidates: isicCandidates, ...isic } = json.isic;
+  const candidates = [...toCandidates(iscoCandidates, 'isco'), ...toCandidates(isicCandidates, 'isic')];
+  return { ...combineDualResult(isco, isic), candidates: candidates.length > 0 ? candidates : undefined };
 };
 
 // --- Generic OpenAI-Compatible Fetcher ---
@@ -73,7 +187,12 @@ async function callOpenAICompatible(
 
     if (!response.ok) {
       const errText = await response.text();
-      throw new Error(`API Error (${settings.provider}): ${response.status} - ${errText}`);
+      // Status and Retry-After are attached so the job queue can decide whether to back off
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw Object.assign(new Error(`API Error (${settings.provider}): ${response.status} - ${errText}`), {
+        status: response.status,
+        retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined
+      });
     }
 
     const data = await response.json();
@@ -157,62 +276,84 @@ export const suggestCodes = async (
   }
 };
 
+// Protocol, level instructions, schema and a typical response
+const CODING_PROMPT_OVERHEAD_TOKENS = 700;
+
+// Estimated tokens for one codeSingleOccupation call, used for tokens-per-minute budgeting
+export const estimateCodingTokens = (
+  primaryText: string,
+  secondaryText: string,
+  examples: ReferenceEntry[] = []
+): number => {
+  const exampleText = examples.map(ex => `${ex.term} ${ex.code} ${ex.label}`).join(' ');
+  return estimateTokens(`${primaryText} ${secondaryText} ${exampleText}`) + CODING_PROMPT_OVERHEAD_TOKENS;
+};
+
+// Per-item response tokens on top of the shared prompt in a batched call
+const BATCH_ITEM_OVERHEAD_TOKENS = 120;
+
+export const estimateBatchCodingTokens = (items: CodingBatchItem[]): number => {
+  const examples = mergeBatchExamples(items);
+  const exampleText = examples.map(ex => `${ex.term} ${ex.code} ${ex.label}`).join(' ');
+  const itemText = items.map(item => `${item.id} ${item.primaryText} ${item.secondaryText} ${item.tertiaryText || ''}`).join(' ');
+  return estimateTokens(`${itemText} ${exampleText}`) + CODING_PROMPT_OVERHEAD_TOKENS + items.length * BATCH_ITEM_OVERHEAD_TOKENS;
+};
+
+// Build Few-Shot Prompt Context from Examples
+const buildExampleContext = (examples: ReferenceEntry[], target: string = "the new item below"): string => {
+  if (examples.length === 0) return "";
+  let contextInfo = "\n\nUse these similar past decisions from the dictionary as reference logic:\n";
+  // Dual coding draws examples from two classifications, so each one names its own
+  const showModule = new Set(examples.map(ex => ex.module)).size > 1;
+  examples.forEach(ex => {
+    contextInfo += `- Input: "${ex.term}" was coded as ${showModule ? `${ex.module} ` : ''}Code: ${ex.code} ("${ex.label}")\n`;
+  });
+  contextInfo += `\nApply similar logic to ${target}.\n`;
+  return contextInfo;
+};
+
+// Hierarchical fallback: allow stopping at a coarser level when the evidence is thin
+const buildLevelInstructions = (module: ModuleType, minLevel?: number): string => {
+  const leafLevel = getLeafLevel(module);
+  const effectiveMinLevel = Math.min(minLevel ?? leafLevel, leafLevel);
+  const levels = getLevelOptions(module).filter(l => l.level >= effectiveMinLevel);
+  return effectiveMinLevel < leafLevel ? `
+  CODING LEVEL:
+  Code at the most detailed level (${levels[0].name}, e.g. ${levels[0].example}) whenever the input supports it.
+  If the evidence is too thin to choose between detailed codes, stop at a coarser level rather than guessing.
+  Allowed levels: ${levels.map(l => `${l.level} = ${l.name} (e.g. ${l.example})`).join(', ')}.
+  Set 'level' to the level of the returned code.
+  ` : `
+  CODING LEVEL: Always code at the most detailed level (${levels[0].name}, e.g. ${levels[0].example}) and set 'level' to ${leafLevel}.
+  `;
+};
+
 export const codeSingleOccupation = async (
   primaryText: string,
   secondaryText: string,
   module: ModuleType,
   settings: AISettings,
   tertiaryText?: string,
-  examples: ReferenceEntry[] = []
+  examples: ReferenceEntry[] = [],
+  minLevel?: number,
+  template: PromptTemplate = getDefaultPromptTemplate(module)
 ): Promise<CodedResult> => {
   
-  let systemPrompt = "";
-  let contextInfo = "";
-
-  // Build Few-Shot Prompt Context from Examples
-  if (examples.length > 0) {
-    contextInfo = "\n\nUse these similar past decisions from the dictionary as reference logic:\n";
-    examples.forEach(ex => {
-      contextInfo += `- Input: "${ex.term}" was coded as Code: ${ex.code} ("${ex.label}")\n`;
-    });
-    contextInfo += "\nApply similar logic to the new item below.\n";
-  }
-
-  let userPrompt = "";
-
-  // Standard Statistical Protocol Prompt Injection
-  // We instruct the model to think in 3 candidates and select the best one.
-  const protocolInstructions = `
-  STATISTICAL PROTOCOL:
-  1. Analyze the input text.
-  2. Identify the top 3 most likely classification codes based on the official index.
-  3. Compare the specific duties/details against the definitions of these 3 codes.
-  4. Select the SINGLE best fit.
-  5. In the 'reasoning' field, strictly state: "Selected [Code] because [Reason]. Alternatives considered: [Code B], [Code C]."
-  `;
-
-  // Define Prompts
-  if (module === ModuleType.ISCO08) {
-    systemPrompt = "You are an expert statistician specializing in ISCO-08.";
-    userPrompt = `${contextInfo}${protocolInstructions}\nTask: Classify Job Title: "${primaryText}", Description: "${secondaryText}".\nReturn JSON with fields: code (4-digit string), label (string), confidence (High/Medium/Low), reasoning (string).`;
-  } else if (module === ModuleType.ISIC4) {
-    systemPrompt = "You are an expert statistician specializing in ISIC Rev. 4.";
-    userPrompt = `${contextInfo}${protocolInstructions}\nTask: Classify Activity: "${primaryText}", Details: "${secondaryText}".\nReturn JSON with fields: code (4-digit string), label (string), confidence (High/Medium/Low), reasoning (string).`;
-  } else if (module === ModuleType.COICOP) {
-    systemPrompt = "You are an expert statistician specializing in COICOP 2018.";
-    userPrompt = `${contextInfo}${protocolInstructions}\nTask: Classify Item: "${primaryText}", Context: "${secondaryText}".\nReturn JSON with fields: code (4-digit string), label (string), confidence (High/Medium/Low), reasoning (string).`;
-  } else if (module === ModuleType.DUAL) {
-    systemPrompt = "You are an expert statistician.";
-    const industryInfo = tertiaryText || secondaryText;
-    userPrompt = `${contextInfo}${protocolInstructions}\nTask: Perform DUAL CODING for: Job Title: "${primaryText}", Industry: "${industryInfo}".
-      1. Determine top ISCO-08 code candidates.
-      2. Determine top ISIC Rev. 4 code candidates.
-      Return JSON:
-      - code: "ISCO: <isco> / ISIC: <isic>"
-      - label: "<isco_label> / <isic_label>"
-      - confidence: "High" (if both high), else "Medium/Low"
-      - reasoning: "ISCO: <reason> (Alternatives: ...). ISIC: <reason> (Alternatives: ...)."`;
-  }
+  // Prompts come from the module's template; dual coding falls back to the description as industry
+  const systemPrompt = template.system;
+  const instructions = renderInstructions(template, {
+    examples: buildExampleContext(examples),
+    levels: buildLevelInstructions(module, minLevel)
+  });
+  const task = renderTask(template, { 
+    primary: primaryText, 
+    secondary: secondaryText, 
+    tertiary: tertiaryText || secondaryText 
+  });
+  const resultFormat = module === ModuleType.DUAL
+    ? `Return JSON: { "isco": {...}, "isic": {...} }, each with fields: ${RESULT_FIELDS}.`
+    : `Return JSON with fields: ${RESULT_FIELDS}.`;
+  const userPrompt = `${instructions}\nTask: ${task}\n${resultFormat}`;
 
   try {
     if (settings.provider === AIProvider.Gemini) {
@@ -223,7 +364,7 @@ export const codeSingleOccupation = async (
         contents: userPrompt,
         config: {
           responseMimeType: "application/json",
-          responseSchema: codingResponseSchema,
+          responseSchema: module === ModuleType.DUAL ? dualResponseSchema : codingResponseSchema,
           temperature: 0.1, // Low temp for deterministic coding
           systemInstruction: systemPrompt,
           thinkingConfig: settings.model?.includes('2.5') ? { thinkingBudget: 1024 } : undefined 
@@ -232,16 +373,207 @@ export const codeSingleOccupation = async (
 
       const text = response.text;
       if (!text) throw new Error("No response from model");
-      return JSON.parse(text) as CodedResult;
+      const json = JSON.parse(text);
+      const result: CodedResult = module === ModuleType.DUAL ? toDualResult(json) || json : toCodedResult(json);
+      return { ...result, promptVersion: template.id };
 
     } else {
       // --- OPENAI / DEEPSEEK / LOCAL IMPLEMENTATION ---
-      const result = await callOpenAICompatible(systemPrompt, userPrompt, settings, true);
-      return result as CodedResult;
+      const json = await callOpenAICompatible(systemPrompt, userPrompt, settings, true);
+      const result: CodedResult = module === ModuleType.DUAL ? toDualResult(json) || json : toCodedResult(json);
+      return { ...result, promptVersion: template.id };
     }
 
   } catch (error) {
     console.error("Error coding item:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export interface CodingBatchItem {
+  id: string;
+  primaryText: string;
+  secondaryText: string;
+  tertiaryText?: string; // Industry, for dual coding
+  examples?: ReferenceEntry[];
+}
+
+// Examples retrieved for each item are pooled into one reference block
+const MAX_BATCH_EXAMPLES = 15;
+
+const mergeBatchExamples = (items: CodingBatchItem[]): ReferenceEntry[] => {
+  const seen = new Set<string>();
+  const merged: ReferenceEntry[] = [];
+  items.forEach(item => (item.examples || []).forEach(ex => {
+    const key = `${ex.term.toLowerCase()}|${ex.code}`;
+    if (seen.has(key) || merged.length >= MAX_BATCH_EXAMPLES) return;
+    seen.add(key);
+    merged.push(ex);
+  }));
+  return merged;
+};
+
+// Codes several rows in one request so the protocol and examples are sent once.
+// Results are keyed by item id; items the model skipped or mislabelled are simply
+// absent from the returned object and should be retried one by one by the caller.
+export const codeBatch = async (
+  items: CodingBatchItem[],
+  module: ModuleType,
+  settings: AISettings,
+  minLevel?: number,
+  template: PromptTemplate = getDefaultPromptTemplate(module)
+): Promise<Record<string, CodedResult>> => {
+  // Item fields are named after the scheme's input roles; an edited task line travels with each item
+  const { fields } = getClassification(module);
+  const customTask = hasCustomTask(template);
+  const instructions = renderInstructions(template, {
+    examples: buildExampleContext(mergeBatchExamples(items), "the new items below"),
+    levels: buildLevelInstructions(module, minLevel)
+  });
+  const isDual = module === ModuleType.DUAL;
+  const systemPrompt = template.system;
+
+  // Without a mapped industry column the description doubles as the industry, as in single-row coding
+  const inputItems = items.map(item => ({ 
+    id: item.id, 
+    [fields.primary.name]: item.primaryText, 
+    [fields.secondary.name]: item.secondaryText,
+    ...(fields.tertiary ? { [fields.tertiary.name]: item.tertiaryText || item.secondaryText } : {}),
+    ...(customTask ? { task: renderTask(template, { 
+      primary: item.primaryText, 
+      secondary: item.secondaryText, 
+      tertiary: item.tertiaryText || item.secondaryText 
+    }) } : {})
+  }));
+  const resultFormat = isDual
+    ? `id (copied unchanged from the item), isco and isic (each an object with fields: ${RESULT_FIELDS})`
+    : `id (copied unchanged from the item), ${RESULT_FIELDS}`;
+
+  const userPrompt = `${instructions}
+Task: ${isDual ? "Perform DUAL CODING (ISCO-08 for the occupation, ISIC Rev. 4 for the industry) for" : "Classify"} each of the ${items.length} items below independently.${customTask ? " Follow each item's task." : ""}
+Items (JSON): ${JSON.stringify(inputItems)}
+Return JSON: { "results": [ ... ] } with exactly one entry per item, in the same order, each with fields: ${resultFormat}.`;
+
+  try {
+    let parsed: any;
+    if (settings.provider === AIProvider.Gemini) {
+      const ai = getGeminiClient(settings.apiKey);
+      const response = await ai.models.generateContent({
+        model: settings.model || "gemini-2.5-flash",
+        contents: userPrompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: isDual ? dualBatchResponseSchema : batchResponseSchema,
+          temperature: 0.1,
+          systemInstruction: systemPrompt,
+          thinkingConfig: settings.model?.includes('2.5') ? { thinkingBudget: 1024 } : undefined
+        },
+      });
+      const text = response.text;
+      if (!text) throw new Error("No response from model");
+      parsed = JSON.parse(text);
+    } else {
+      parsed = await callOpenAICompatible(systemPrompt, userPrompt, settings, true);
+    }
+
+    // Match back strictly by id; duplicates and unknown ids are dropped
+    const expectedIds = new Set(items.map(item => item.id));
+    const results: Record<string, CodedResult> = {};
+    const entries: any[] = Array.isArray(parsed?.results) ? parsed.results : [];
+    entries.forEach(entry => {
+      const id = entry?.id !== undefined ? String(entry.id) : '';
+      if (!expectedIds.has(id) || results[id]) return;
+      if (isDual) {
+        const result = toDualResult(entry);
+        if (result) results[id] = { ...result, promptVersion: template.id };
+        return;
+      }
+      if (!entry.code) return;
+      const { id: _id, ...result } = entry;
+      results[id] = { ...toCodedResult(result), promptVersion: template.id };
+    });
+    return results;
+
+  } catch (error) {
+    console.error("Error coding batch:", error);
+    throw error;
+  }
+};
+
+// --- Embeddings ---
+
+export const DEFAULT_EMBEDDING_MODELS: Record<AIProvider, string> = {
+  [AIProvider.Gemini]: "text-embedding-004",
+  [AIProvider.OpenAI]: "text-embedding-3-small",
+  [AIProvider.DeepSeek]: "",
+  [AIProvider.Local]: "nomic-embed-text",
+};
+
+// Identifies the vector space, so vectors from another model are never compared
+export const getEmbeddingModelId = (settings: AISettings): string => {
+  const retrieval = settings.retrieval || {};
+  if (retrieval.embeddingSource === 'local') {
+    return `local:${retrieval.embeddingModel || DEFAULT_EMBEDDING_MODELS[AIProvider.Local]}`;
+  }
+  return `${settings.provider}:${retrieval.embeddingModel || DEFAULT_EMBEDDING_MODELS[settings.provider]}`;
+};
+
+const getEmbeddingUrl = (settings: AISettings): string => {
+  if (settings.retrieval?.embeddingSource === 'local') {
+    return settings.retrieval.embeddingUrl || "http://localhost:11434/v1/embeddings";
+  }
+  if (settings.baseUrl) return settings.baseUrl.replace(/\/chat\/completions\/?$/, '/embeddings');
+  return settings.provider === AIProvider.OpenAI ? "https://api.openai.com/v1/embeddings" : "http://localhost:11434/v1/embeddings";
+};
+
+export const embedTexts = async (texts: string[], settings: AISettings): Promise<number[][]> => {
+  if (texts.length === 0) return [];
+  const retrieval = settings.retrieval || {};
+  const useLocal = retrieval.embeddingSource === 'local';
+
+  if (!useLocal && settings.provider === AIProvider.Gemini) {
+    const ai = getGeminiClient(settings.apiKey);
+    const response = await ai.models.embedContent({
+      model: retrieval.embeddingModel || DEFAULT_EMBEDDING_MODELS[AIProvider.Gemini],
+      contents: texts,
+    });
+    const vectors = (response.embeddings || []).map(e => e.values || []);
+    if (vectors.length !== texts.length) throw new Error("Embedding count does not match input count");
+    return vectors;
+  }
+
+  if (!useLocal && settings.provider === AIProvider.DeepSeek) {
+    throw new Error("DeepSeek has no embeddings API; choose a local embedding endpoint in settings.");
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.apiKey && !useLocal) headers["Authorization"] = `Bearer ${settings.apiKey}`;
+
+  const response = await fetch(getEmbeddingUrl(settings), {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: retrieval.embeddingModel || DEFAULT_EMBEDDING_MODELS[useLocal ? AIProvider.Local : settings.provider],
+      input: texts
+    })
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw Object.assign(new Error(`Embedding API Error: ${response.status} - ${errText}`), {
+      status: response.status,
+      retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined
+    });
+  }
+
+  const data = await response.json();
+  // OpenAI returns items with an index; keep input order regardless of response order
+  const items: { index?: number; embedding: number[] }[] = data.data || [];
+  const vectors = items
+    .map((item, i) => ({ index: item.index ?? i, embedding: item.embedding }))
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.embedding);
+  if (vectors.length !== texts.length) throw new Error("Embedding count does not match input count");
+  return vectors;
+};
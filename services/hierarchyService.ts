@@ -0,0 +1,249 @@
+import { ModuleType, CodedResult, ClassificationNode, DualResult, CodeCandidate } from "../types";
+import { getClassification, ClassificationStructure } from "./classificationRegistry";
+
+export type SingleModule = Exclude<ModuleType, ModuleType.DUAL>;
+
+interface Hierarchy {
+  version: string;
+  levelNames: string[];
+  nodes: Map<string, ClassificationNode>;
+  normalize: (raw: string) => string;
+}
+
+const getStructure = (module: ModuleType): ClassificationStructure => {
+  const structure = getClassification(module).structure;
+  if (!structure) throw new Error(`${module} has no code structure of its own`);
+  return structure;
+};
+
+// Parsed lazily and kept in memory; the bundled data never changes at runtime.
+// Null marks schemes without a bundled code list.
+let hierarchyCache: Partial<Record<ModuleType, Hierarchy | null>> = {};
+
+const buildHierarchy = (data: string, structure: ClassificationStructure, version: string): Hierarchy => {
+  const nodes = new Map<string, ClassificationNode>();
+  // Most recent node seen at each level; entries are listed parent-first
+  const lastAtLevel: string[] = [];
+
+  data.split('\n').forEach(line => {
+    const sep = line.indexOf('|');
+    if (sep === -1) return;
+    const code = line.slice(0, sep).trim();
+    const label = line.slice(sep + 1).trim();
+    const level = structure.levelOf(code);
+    const parent = level > 1 ? lastAtLevel[level - 1] : undefined;
+
+    nodes.set(code, { code, label, level, parent, isLeaf: true });
+    if (parent) {
+      const parentNode = nodes.get(parent);
+      if (parentNode) parentNode.isLeaf = false;
+    }
+    lastAtLevel[level] = code;
+    lastAtLevel.length = level + 1;
+  });
+
+  return { version, levelNames: structure.levelNames, nodes, normalize: structure.normalize };
+};
+
+const getHierarchy = (module: SingleModule): Hierarchy | null => {
+  if (hierarchyCache[module] === undefined) {
+    const def = getClassification(module);
+    hierarchyCache[module] = def.hierarchy ? buildHierarchy(def.hierarchy, getStructure(module), def.version) : null;
+  }
+  return hierarchyCache[module] ?? null;
+};
+
+// Whether codes can be checked against an official list, or only against the code format
+export const hasCodeList = (module: ModuleType): boolean => !!getClassification(module).hierarchy;
+
+export const getClassificationVersion = (module: ModuleType): string => {
+  return getClassification(module).version;
+};
+
+export interface LevelOption {
+  level: number;
+  name: string;
+  example: string;
+}
+
+// Levels from most detailed to most aggregated; Dual coding uses the ISCO and ISIC levels side by side
+export const getLevelOptions = (module: ModuleType): LevelOption[] => {
+  if (module === ModuleType.DUAL) {
+    const isco = getLevelOptions(ModuleType.ISCO08);
+    const isic = getLevelOptions(ModuleType.ISIC4);
+    return isco.map((opt, i) => ({
+      level: opt.level,
+      name: `${opt.name} / ${isic[i].name}`,
+      example: `ISCO: ${opt.example} / ISIC: ${isic[i].example}`
+    }));
+  }
+  const structure = getStructure(module);
+  return structure.levelNames
+    .map((name, i) => ({ level: i + 1, name, example: structure.levelExamples[i] }))
+    .reverse();
+};
+
+export const getLeafLevel = (module: ModuleType): number => {
+  if (module === ModuleType.DUAL) return getLeafLevel(ModuleType.ISCO08);
+  return getStructure(module).levelNames.length;
+};
+
+export const lookupCode = (rawCode: string, module: SingleModule): ClassificationNode | null => {
+  const hierarchy = getHierarchy(module);
+  if (!rawCode || !hierarchy) return null;
+  return hierarchy.nodes.get(hierarchy.normalize(rawCode)) || null;
+};
+
+// Ancestor of a code at `level` (the code itself at its own level); null when it cannot be derived
+export const getAncestorCode = (rawCode: string, module: SingleModule, level: number): string | null => {
+  const hierarchy = getHierarchy(module);
+  if (!rawCode) return null;
+  if (hierarchy) {
+    let node = hierarchy.nodes.get(hierarchy.normalize(rawCode));
+    while (node && node.level > level) node = node.parent ? hierarchy.nodes.get(node.parent) : undefined;
+    return node?.level === level ? node.code : null;
+  }
+  // Without a code list the scheme derives them, by default as the code's own valid prefixes
+  const structure = getStructure(module);
+  const code = structure.normalize(rawCode);
+  if (structure.ancestorOf) {
+    const ancestor = structure.codeFormat.test(code) ? structure.ancestorOf(code, level) : null;
+    return ancestor && structure.levelOf(ancestor) === level ? ancestor : null;
+  }
+  for (let end = code.length; end > 0; end--) {
+    const prefix = code.slice(0, end);
+    if (structure.codeFormat.test(prefix) && structure.levelOf(prefix) === level) return prefix;
+  }
+  return null;
+};
+
+// Returns the canonical node, or an error message describing why the code is not acceptable.
+// Codes above the leaf level are accepted down to `minLevel` (hierarchical fallback).
+// Schemes without a code list only check the code format; their nodes carry no label.
+export const validateCode = (
+  rawCode: string,
+  module: SingleModule,
+  minLevel: number = getLeafLevel(module)
+): { node?: ClassificationNode; error?: string } => {
+  const structure = getStructure(module);
+  const hierarchy = getHierarchy(module);
+  if (!rawCode || !rawCode.trim()) {
+    return { error: 'No code returned' };
+  }
+
+  let node: ClassificationNode | undefined;
+  if (hierarchy) {
+    node = hierarchy.nodes.get(hierarchy.normalize(rawCode));
+    if (!node) {
+      return { error: `Invalid code: "${rawCode}" does not exist in ${hierarchy.version}` };
+    }
+  } else {
+    const code = structure.normalize(rawCode);
+    if (!structure.codeFormat.test(code)) {
+      return { error: `Invalid code: "${rawCode}" is not a valid ${getClassificationVersion(module)} code` };
+    }
+    const level = structure.levelOf(code);
+    node = { code, label: '', level, isLeaf: level >= structure.levelNames.length };
+  }
+
+  if (!node.isLeaf && node.level < minLevel) {
+    const levelName = structure.levelNames[node.level - 1] || `level ${node.level}`;
+    const minLevelName = structure.levelNames[Math.min(minLevel, structure.levelNames.length) - 1];
+    return { node, error: `Code too coarse: ${node.code} is a ${levelName.toLowerCase()}; coding must be at ${minLevelName.toLowerCase()} level or finer` };
+  }
+  return { node };
+};
+
+// The two classifications of a dual-coded row
+export const DUAL_PARTS: { part: keyof DualResult; module: SingleModule; name: string }[] = [
+  { part: 'isco', module: ModuleType.ISCO08, name: 'ISCO' },
+  { part: 'isic', module: ModuleType.ISIC4, name: 'ISIC' }
+];
+
+const CONFIDENCE_RANK: Record<string, number> = { Low: 0, Medium: 1, High: 2, Reference: 3, Manual: 4 };
+
+// Summary of a dual result for tables and search; the pair is only as certain as its weaker half
+export const combineDualResult = (isco: CodedResult, isic: CodedResult): CodedResult => {
+  const weaker = (CONFIDENCE_RANK[isco.confidence] ?? 0) <= (CONFIDENCE_RANK[isic.confidence] ?? 0) ? isco : isic;
+  return {
+    code: `ISCO: ${isco.code} / ISIC: ${isic.code}`,
+    label: `${isco.label} / ${isic.label}`,
+    confidence: weaker.confidence,
+    reasoning: `ISCO: ${isco.reasoning || '-'} ISIC: ${isic.reasoning || '-'}`,
+    level: isco.level !== undefined && isic.level !== undefined ? Math.min(isco.level, isic.level) : undefined,
+    dual: { isco, isic }
+  };
+};
+
+// A reviewer's pick from the model's candidates; for dual coding only the candidate's half changes
+export const applyCandidate = (result: CodedResult | undefined, candidate: CodeCandidate): CodedResult => {
+  const picked: CodedResult = {
+    code: candidate.code,
+    label: candidate.label,
+    confidence: 'Manual',
+    reasoning: `Model alternative selected by reviewer (score ${candidate.score.toFixed(2)})`
+  };
+  if (!candidate.part || !result?.dual) return picked;
+  const dual = { ...result.dual, [candidate.part]: picked };
+  return combineDualResult(dual.isco, dual.isic);
+};
+
+// Sessions saved before dual results were structured packed them as "ISCO: <code> / ISIC: <code>"
+const DUAL_CODE_PATTERN = /ISCO:\s*([^/]*?)\s*\/\s*ISIC:\s*(.*)$/i;
+
+const parsePackedDualResult = (result: CodedResult): DualResult | null => {
+  const match = (result.code || '').match(DUAL_CODE_PATTERN);
+  if (!match) return null;
+  const [iscoLabel, isicLabel] = (result.label || '').split(' / ');
+  const { match: _match, dual: _dual, ...shared } = result;
+  return {
+    isco: { ...shared, code: match[1], label: iscoLabel || '', level: undefined },
+    isic: { ...shared, code: match[2], label: isicLabel || '', level: undefined }
+  };
+};
+
+// Validates a result against the bundled hierarchy and replaces labels with the official text.
+// Invalid codes keep the model's label so reviewers can see what was returned.
+export const validateCodedResult = (
+  result: CodedResult,
+  module: ModuleType,
+  minLevel?: number
+): { result: CodedResult; error?: string } => {
+  const classificationVersion = getClassificationVersion(module);
+
+  if (module === ModuleType.DUAL) {
+    const dual = result.dual || parsePackedDualResult(result);
+    if (!dual) {
+      return {
+        result: { ...result, classificationVersion },
+        error: 'Dual coding returned no separate ISCO and ISIC results'
+      };
+    }
+    // Each half is validated against its own hierarchy
+    const isco = validateCodedResult(dual.isco, ModuleType.ISCO08, minLevel);
+    const isic = validateCodedResult(dual.isic, ModuleType.ISIC4, minLevel);
+    const errors = [isco.error && `ISCO ${isco.error}`, isic.error && `ISIC ${isic.error}`].filter(Boolean);
+
+    return {
+      result: { 
+        ...combineDualResult(isco.result, isic.result), 
+        promptVersion: result.promptVersion, 
+        ensemble: result.ensemble, 
+        classificationVersion 
+      },
+      error: errors.length > 0 ? errors.join('; ') : undefined
+    };
+  }
+
+  const { node, error } = validateCode(result.code, module, minLevel);
+  return {
+    result: {
+      ...result,
+      code: node?.code || result.code,
+      label: node?.label || result.label,
+      level: node?.level ?? result.level,
+      classificationVersion
+    },
+    error
+  };
+};
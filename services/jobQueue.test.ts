@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter, isRetryableError, runJobQueue, withRetry } from './jobQueue';
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('withRetry', () => {
+  it('retries rate-limit and server errors until the call succeeds', async () => {
+    let calls = 0;
+    const retries: number[] = [];
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw httpError(calls === 1 ? 429 : 503);
+      return 'ok';
+    }, { maxRetries: 5, baseDelayMs: 1, onRetry: (attempt) => retries.push(attempt) });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => { calls++; throw httpError(500); }, { maxRetries: 2, baseDelayMs: 1 }))
+      .rejects.toThrow('HTTP 500');
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry client errors', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => { calls++; throw httpError(400); }, { maxRetries: 5, baseDelayMs: 1 }))
+      .rejects.toThrow('HTTP 400');
+    expect(calls).toBe(1);
+  });
+
+  it('stops waiting with an AbortError when asked to', async () => {
+    const error = Object.assign(httpError(429), { retryAfterMs: 60000 });
+    let stop = false;
+    const pending = withRetry(async () => { throw error; }, { maxRetries: 5, shouldAbort: () => stop });
+    stop = true;
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('isRetryableError', () => {
+  it('treats network failures as retryable and aborts as final', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new Error('status 502 from proxy'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('x'), { name: 'AbortError' }))).toBe(false);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('aborts a wait for a full request window', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1, tokensPerMinute: 0 });
+    await limiter.acquire(10);
+    await expect(limiter.acquire(10, () => true)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('lets one oversized request through an empty window', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 0, tokensPerMinute: 100 });
+    await expect(limiter.acquire(500)).resolves.toBeUndefined();
+  });
+});
+
+describe('runJobQueue', () => {
+  it('keeps at most `concurrency` jobs in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runJobQueue([1, 2, 3, 4, 5, 6], async (job) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      done.push(job);
+      running--;
+    }, { concurrency: 2, shouldStop: () => false });
+
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('starts no new jobs once stopped', async () => {
+    const started: number[] = [];
+    await runJobQueue([1, 2, 3, 4], async (job) => { started.push(job); }, { concurrency: 1, shouldStop: () => started.length >= 2 });
+    expect(started).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,145 @@
+import { AIProvider, AISettings, ProviderLimits } from "../types";
+
+// Conservative defaults; free-tier keys are the common case
+export const DEFAULT_PROVIDER_LIMITS: Record<AIProvider, ProviderLimits> = {
+  [AIProvider.Gemini]: { concurrency: 4, requestsPerMinute: 60, tokensPerMinute: 250000, maxRetries: 5, batchSize: 10 },
+  [AIProvider.OpenAI]: { concurrency: 4, requestsPerMinute: 500, tokensPerMinute: 200000, maxRetries: 5, batchSize: 10 },
+  [AIProvider.DeepSeek]: { concurrency: 4, requestsPerMinute: 60, tokensPerMinute: 100000, maxRetries: 5, batchSize: 10 },
+  [AIProvider.Local]: { concurrency: 1, requestsPerMinute: 0, tokensPerMinute: 0, maxRetries: 2, batchSize: 1 }
+};
+
+export const getProviderLimits = (settings: AISettings): ProviderLimits => ({
+  ...DEFAULT_PROVIDER_LIMITS[settings.provider],
+  ...settings.limits?.[settings.provider]
+});
+
+// Rough token estimate (~4 characters per token) used for tokens-per-minute budgeting
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+const WINDOW_MS = 60000;
+const POLL_MS = 250;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const abortError = () => Object.assign(new Error('Processing paused'), { name: 'AbortError' });
+
+// Fields our API errors carry next to the message (see geminiService)
+interface ApiErrorFields {
+  name?: unknown;
+  message?: unknown;
+  status?: unknown;
+  retryAfterMs?: unknown;
+}
+
+const asErrorFields = (error: unknown): ApiErrorFields =>
+  typeof error === 'object' && error !== null ? error : {};
+
+export const isAbortError = (error: unknown): boolean => asErrorFields(error).name === 'AbortError';
+
+// Sleeps in short slices so a pause request is honoured quickly
+const abortableSleep = async (ms: number, shouldAbort?: () => boolean) => {
+  const until = Date.now() + ms;
+  while (Date.now() < until) {
+    if (shouldAbort?.()) throw abortError();
+    await sleep(Math.min(POLL_MS, until - Date.now()));
+  }
+};
+
+// Sliding one-minute window over requests and estimated tokens
+export const createRateLimiter = (limits: Pick<ProviderLimits, 'requestsPerMinute' | 'tokensPerMinute'>) => {
+  const log: { at: number; tokens: number }[] = [];
+
+  const prune = (now: number) => {
+    while (log.length > 0 && now - log[0].at >= WINDOW_MS) log.shift();
+  };
+
+  const hasCapacity = (tokens: number) => {
+    const usedTokens = log.reduce((sum, e) => sum + e.tokens, 0);
+    const requestsOk = !limits.requestsPerMinute || log.length < limits.requestsPerMinute;
+    // A single oversized request is let through on an empty window rather than blocking forever
+    const tokensOk = !limits.tokensPerMinute || log.length === 0 || usedTokens + tokens <= limits.tokensPerMinute;
+    return requestsOk && tokensOk;
+  };
+
+  const acquire = async (tokens: number, shouldAbort?: () => boolean): Promise<void> => {
+    while (true) {
+      const now = Date.now();
+      prune(now);
+      if (hasCapacity(tokens)) {
+        log.push({ at: now, tokens });
+        return;
+      }
+      // Wait until the oldest entry leaves the window
+      await abortableSleep(Math.max(POLL_MS, WINDOW_MS - (now - log[0].at)), shouldAbort);
+    }
+  };
+
+  return { acquire };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+// HTTP status from our own API errors or from the Gemini SDK
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const { status, message } = asErrorFields(error);
+  if (typeof status === 'number') return status;
+  const match = String(message || '').match(/\b(429|5\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  // fetch() rejects with a TypeError on network failures
+  return error instanceof TypeError;
+};
+
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  options: {
+    maxRetries: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    onRetry?: (attempt: number, error: unknown) => void;
+    shouldAbort?: () => boolean;
+  }
+): Promise<T> => {
+  const { maxRetries, baseDelayMs = 1000, maxDelayMs = 60000, onRetry, shouldAbort } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+      // Exponential backoff with full jitter; honour Retry-After when the provider sends one
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const { retryAfterMs } = asErrorFields(error);
+      const delay = typeof retryAfterMs === 'number' ? retryAfterMs : Math.random() * backoff;
+
+      onRetry?.(attempt + 1, error);
+      await abortableSleep(delay, shouldAbort);
+    }
+  }
+};
+
+// Runs `worker` over `jobs` with at most `concurrency` in flight.
+// When `shouldStop` turns true no new jobs are started; in-flight jobs finish normally.
+export const runJobQueue = async <T>(
+  jobs: T[],
+  worker: (job: T) => Promise<void>,
+  options: { concurrency: number; shouldStop: () => boolean }
+): Promise<void> => {
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < jobs.length && !options.shouldStop()) {
+      const job = jobs[next++];
+      await worker(job);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, jobs.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+};
@@ -0,0 +1,252 @@
+import { 
+  ModuleType, ReferenceEntry, KnowledgeBundle, BundleMergeStrategy, BundleConflict, RawDataRow, LearnedProvenance 
+} from "../types";
+import { DB_VERSION, listReferenceEntries, replaceReferenceEntries } from "./dbService";
+import { getClassificationVersion } from "./hierarchyService";
+import { CLASSIFICATIONS } from "./classificationRegistry";
+import { parseDataFile } from "../utils/csvHelper";
+import { normalizeInputText } from "../utils/textHelper";
+
+declare const XLSX: any;
+
+const BUNDLE_FORMAT = 'statcode-knowledge-base';
+export const BUNDLE_VERSION = 1;
+
+const MODULE_VALUES: string[] = CLASSIFICATIONS.map(def => def.id);
+
+// --- Export ---
+
+export const buildKnowledgeBundle = async (modules: ModuleType[], exportedBy?: string): Promise<KnowledgeBundle> => {
+  const entries = (await Promise.all(modules.map(m => listReferenceEntries(m)))).flat();
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    dbVersion: DB_VERSION,
+    exportedAt: Date.now(),
+    exportedBy,
+    modules,
+    classificationVersions: Object.fromEntries(modules.map(m => [m, getClassificationVersion(m)])),
+    entries
+  };
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// CSV has no room for a header block, so bundle metadata is repeated on every row
+const toCsvRow = (entry: ReferenceEntry, bundle: KnowledgeBundle) => ({
+  Module: entry.module,
+  Term: entry.term,
+  Code: entry.code,
+  Label: entry.label,
+  Description: entry.description || '',
+  Source: entry.source,
+  Status: entry.status || 'approved',
+  Added_At: new Date(entry.addedAt).toISOString(),
+  Entry_ID: entry.id,
+  Learned_Session: entry.provenance?.sessionName || '',
+  Learned_Session_ID: entry.provenance?.sessionId || '',
+  Learned_By: entry.provenance?.coder || '',
+  Learned_At: entry.provenance?.learnedAt ? new Date(entry.provenance.learnedAt).toISOString() : '',
+  Original_Code: entry.provenance?.originalCode || '',
+  Original_Confidence: entry.provenance?.originalConfidence || '',
+  Bundle_Version: bundle.version,
+  DB_Version: bundle.dbVersion,
+  Exported_At: new Date(bundle.exportedAt).toISOString()
+});
+
+export const exportKnowledgeBundle = async (modules: ModuleType[], format: 'json' | 'csv', exportedBy?: string): Promise<number> => {
+  const bundle = await buildKnowledgeBundle(modules, exportedBy);
+  const baseName = `knowledge-base-${new Date(bundle.exportedAt).toISOString().slice(0, 10)}`;
+
+  if (format === 'json') {
+    downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+  } else {
+    const worksheet = XLSX.utils.json_to_sheet(bundle.entries.map(e => toCsvRow(e, bundle)));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Knowledge Base");
+    XLSX.writeFile(workbook, `${baseName}.csv`);
+  }
+  return bundle.entries.length;
+};
+
+// --- Import ---
+
+// A bundle or entry as read from a file: any field may be missing or of another type
+type RawBundle = Partial<Record<keyof KnowledgeBundle, unknown>>;
+type RawBundleEntry = Partial<Record<keyof ReferenceEntry, unknown>>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const parseTime = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const time = Date.parse(String(value || ''));
+  return Number.isNaN(time) ? Date.now() : time;
+};
+
+const optionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+const migrateProvenance = (raw: Record<string, unknown>): LearnedProvenance => ({
+  sessionId: optionalString(raw.sessionId),
+  sessionName: optionalString(raw.sessionName),
+  coder: optionalString(raw.coder),
+  learnedAt: parseTime(raw.learnedAt),
+  originalCode: optionalString(raw.originalCode),
+  originalConfidence: optionalString(raw.originalConfidence)
+});
+
+// Brings entries from older bundles / database versions up to the current shape
+const migrateEntry = (raw: RawBundleEntry, bundleDbVersion: number): ReferenceEntry | null => {
+  if (typeof raw.module !== 'string' || !MODULE_VALUES.includes(raw.module) || !raw.term || !raw.code) return null;
+  const entry: ReferenceEntry = {
+    id: String(raw.id || crypto.randomUUID()),
+    module: raw.module as ModuleType,
+    term: String(raw.term),
+    code: String(raw.code),
+    label: String(raw.label || ''),
+    ...(raw.description ? { description: String(raw.description) } : {}),
+    source: raw.source === 'learned' ? 'learned' : 'upload',
+    addedAt: parseTime(raw.addedAt)
+  };
+  // DB v1 had no review workflow: everything in it was in use
+  if (bundleDbVersion >= 2 && raw.status === 'pending') entry.status = 'pending';
+  if (isRecord(raw.provenance)) entry.provenance = migrateProvenance(raw.provenance);
+  return entry;
+};
+
+const fromCsvRow = (row: RawDataRow): RawBundleEntry => ({
+  id: row['Entry_ID'],
+  module: row['Module'],
+  term: row['Term'],
+  code: row['Code'],
+  label: row['Label'],
+  description: row['Description'],
+  source: row['Source'],
+  status: row['Status'],
+  addedAt: row['Added_At'],
+  provenance: row['Learned_At'] ? {
+    sessionName: row['Learned_Session'] || undefined,
+    sessionId: row['Learned_Session_ID'] || undefined,
+    coder: row['Learned_By'] || undefined,
+    learnedAt: parseTime(row['Learned_At']),
+    originalCode: row['Original_Code'] || undefined,
+    originalConfidence: row['Original_Confidence'] || undefined
+  } : undefined
+});
+
+export const readKnowledgeBundle = async (file: File): Promise<KnowledgeBundle> => {
+  let raw: RawBundle;
+  if (/\.json$/i.test(file.name)) {
+    const parsed: unknown = JSON.parse(await file.text());
+    raw = isRecord(parsed) ? parsed : {};
+    if (raw.format !== BUNDLE_FORMAT || !Array.isArray(raw.entries)) {
+      throw new Error("Not a knowledge base bundle");
+    }
+  } else {
+    const rows = await parseDataFile(file);
+    if (rows.length > 0 && !('Module' in rows[0] && 'Term' in rows[0] && 'Code' in rows[0])) {
+      throw new Error("Not a knowledge base bundle: expected Module, Term and Code columns");
+    }
+    raw = {
+      format: BUNDLE_FORMAT,
+      version: Number(rows[0]?.['Bundle_Version']) || BUNDLE_VERSION,
+      dbVersion: Number(rows[0]?.['DB_Version']) || 1,
+      exportedAt: parseTime(rows[0]?.['Exported_At']),
+      entries: rows.map(fromCsvRow)
+    };
+  }
+
+  if (Number(raw.version) > BUNDLE_VERSION || Number(raw.dbVersion) > DB_VERSION) {
+    throw new Error("This bundle was exported by a newer version of the app");
+  }
+
+  const dbVersion = Number(raw.dbVersion) || 1;
+  const rawEntries: unknown[] = Array.isArray(raw.entries) ? raw.entries : [];
+  const entries = rawEntries
+    .map(e => isRecord(e) ? migrateEntry(e, dbVersion) : null)
+    .filter((e): e is ReferenceEntry => !!e);
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    dbVersion,
+    exportedAt: parseTime(raw.exportedAt),
+    exportedBy: typeof raw.exportedBy === 'string' ? raw.exportedBy : undefined,
+    modules: Array.from(new Set(entries.map(e => e.module))),
+    classificationVersions: isRecord(raw.classificationVersions)
+      ? Object.fromEntries(Object.entries(raw.classificationVersions).filter(([, version]) => typeof version === 'string'))
+      : {},
+    entries
+  };
+};
+
+export interface BundleImportPlan {
+  toAdd: ReferenceEntry[];
+  toDelete: string[];
+  conflicts: BundleConflict[]; // Left for the user when the strategy is 'prompt'
+  unchanged: number;
+}
+
+const entryKey = (e: ReferenceEntry) => `${e.module}\u0000${normalizeInputText(e.term)}`;
+const entryTime = (e: ReferenceEntry) => e.provenance?.learnedAt ?? e.addedAt;
+
+// A conflict is the same term mapped to a different code; identical mappings are skipped
+export const planBundleImport = async (bundle: KnowledgeBundle, strategy: BundleMergeStrategy): Promise<BundleImportPlan> => {
+  const existingByKey = new Map<string, ReferenceEntry>();
+  for (const module of bundle.modules) {
+    (await listReferenceEntries(module)).forEach(e => existingByKey.set(entryKey(e), e));
+  }
+
+  const plan: BundleImportPlan = { toAdd: [], toDelete: [], conflicts: [], unchanged: 0 };
+  const seen = new Set<string>();
+
+  bundle.entries.forEach(incoming => {
+    const key = entryKey(incoming);
+    if (seen.has(key)) return; // First entry per term in the bundle wins
+    seen.add(key);
+
+    const existing = existingByKey.get(key);
+    if (!existing) {
+      plan.toAdd.push(incoming);
+      return;
+    }
+    if (existing.code === incoming.code) {
+      plan.unchanged++;
+      return;
+    }
+
+    let takeIncoming: boolean;
+    if (strategy === 'prompt') {
+      plan.conflicts.push({ existing, incoming });
+      return;
+    } else if (strategy === 'upload-first' && existing.source !== incoming.source) {
+      takeIncoming = incoming.source === 'upload';
+    } else {
+      takeIncoming = entryTime(incoming) > entryTime(existing);
+    }
+
+    if (takeIncoming) {
+      plan.toDelete.push(existing.id);
+      plan.toAdd.push(incoming);
+    } else {
+      plan.unchanged++;
+    }
+  });
+
+  return plan;
+};
+
+// `acceptIncoming` lists the conflicts (by incoming entry id) where the bundle should win
+export const applyBundleImport = async (plan: BundleImportPlan, acceptIncoming: Set<string> = new Set()): Promise<number> => {
+  const resolved = plan.conflicts.filter(c => acceptIncoming.has(c.incoming.id));
+  const toDelete = [...plan.toDelete, ...resolved.map(c => c.existing.id)];
+  const toAdd = [...plan.toAdd, ...resolved.map(c => c.incoming)];
+
+  await replaceReferenceEntries(toAdd, { ids: toDelete });
+  return toAdd.length;
+};
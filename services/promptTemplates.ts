@@ -0,0 +1,99 @@
+import { ModuleType, PromptTemplate } from "../types";
+import { getClassification } from "./classificationRegistry";
+import { getPromptTemplates, addPromptTemplate } from "./dbService";
+
+// Standard Statistical Protocol Prompt Injection
+// We instruct the model to think in 3 candidates and select the best one.
+const PROTOCOL_INSTRUCTIONS = `
+  STATISTICAL PROTOCOL:
+  1. Analyze the input text.
+  2. Identify the top 3 most likely classification codes based on the official index.
+  3. Compare the specific duties/details against the definitions of these 3 codes.
+  4. Select the SINGLE best fit.
+  5. In the 'reasoning' field, strictly state: "Selected [Code] because [Reason]. Alternatives considered: [Code B], [Code C]."
+  6. List all 3 codes in the 'candidates' field, best first, each with a score between 0 and 1.
+  `;
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: '{primary}', description: 'Primary text of the row (task only)' },
+  { name: '{secondary}', description: 'Context / description (task only)' },
+  { name: '{tertiary}', description: 'Third input, e.g. industry for dual coding (task only)' },
+  { name: '{examples}', description: 'Similar knowledge base entries' },
+  { name: '{levels}', description: 'Allowed hierarchy levels for the session' },
+  { name: '{rules}', description: 'The rules below, as a numbered list' }
+];
+
+export const getTemplateId = (module: ModuleType, version: number) => `${module}@v${version}`;
+
+// Version 0: the prompt the app ships with, built from the classification registry
+export const getDefaultPromptTemplate = (module: ModuleType): PromptTemplate => {
+  const { prompt } = getClassification(module);
+  return {
+    id: getTemplateId(module, 0),
+    module,
+    version: 0,
+    system: prompt.expertise,
+    instructions: `{examples}${PROTOCOL_INSTRUCTIONS}{levels}{rules}`,
+    task: prompt.task,
+    rules: '',
+    note: 'Built-in default',
+    createdAt: 0
+  };
+};
+
+// Latest saved version per module; a coding run reads it once so all its rows share one version
+const activeCache: Partial<Record<ModuleType, PromptTemplate>> = {};
+
+export const getActivePromptTemplate = async (module: ModuleType): Promise<PromptTemplate> => {
+  if (!activeCache[module]) {
+    const [latest] = await getPromptTemplates(module);
+    activeCache[module] = latest || getDefaultPromptTemplate(module);
+  }
+  return activeCache[module]!;
+};
+
+export const savePromptTemplate = async (
+  module: ModuleType,
+  draft: Pick<PromptTemplate, 'system' | 'instructions' | 'task' | 'rules' | 'note'>,
+  createdBy?: string
+): Promise<PromptTemplate> => {
+  const [latest] = await getPromptTemplates(module);
+  const version = (latest?.version || 0) + 1;
+  const template: PromptTemplate = {
+    ...draft,
+    id: getTemplateId(module, version),
+    module,
+    version,
+    createdAt: Date.now(),
+    createdBy
+  };
+  await addPromptTemplate(template);
+  activeCache[module] = template;
+  return template;
+};
+
+const formatRules = (rules: string): string => {
+  const lines = rules.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return '';
+  return `
+  CODING RULES (these override general guidance):
+${lines.map((line, i) => `  ${i + 1}. ${line}`).join('\n')}
+  `;
+};
+
+// Values go in through replacer functions, so "$&" or "$1" in survey answers stay literal text
+export const renderInstructions = (template: PromptTemplate, values: { examples: string; levels: string }): string =>
+  template.instructions
+    .replace(/\{examples\}/g, () => values.examples)
+    .replace(/\{levels\}/g, () => values.levels)
+    .replace(/\{rules\}/g, () => formatRules(template.rules));
+
+export const renderTask = (template: PromptTemplate, values: { primary: string; secondary: string; tertiary?: string }): string =>
+  template.task
+    .replace(/\{primary\}/g, () => values.primary ?? '')
+    .replace(/\{secondary\}/g, () => values.secondary ?? '')
+    .replace(/\{tertiary\}/g, () => values.tertiary ?? '');
+
+// Batched prompts list items as JSON; only a task that differs from the built-in one is added per item
+export const hasCustomTask = (template: PromptTemplate): boolean =>
+  template.task.trim() !== getDefaultPromptTemplate(template.module).task.trim();
@@ -0,0 +1,107 @@
+import { 
+  ModuleType, RawDataRow, ReferenceEntry, ReferenceColumnMapping, ReferenceImportItem 
+} from "../types";
+import { validateCodedResult } from "./hierarchyService";
+import { 
+  listReferenceEntries, replaceReferenceEntries 
+} from "./dbService";
+import { normalizeInputText } from "../utils/textHelper";
+
+// Same heuristic style as DataMapping: first column whose name contains a keyword
+export const guessReferenceMapping = (columns: string[]): ReferenceColumnMapping => {
+  const findMatch = (keywords: string[], exclude: string[] = []) =>
+    columns.find(c => !exclude.includes(c) && keywords.some(k => c.toLowerCase().includes(k))) || '';
+
+  const codeColumn = findMatch(['code', 'isco', 'isic', 'coicop', 'class']);
+  const labelColumn = findMatch(['label', 'title', 'name', 'official'], [codeColumn]);
+  const termColumn = findMatch(['term', 'synonym', 'keyword', 'alias', 'text', 'index'], [codeColumn, labelColumn]);
+  const descriptionColumn = findMatch(['desc', 'note', 'comment'], [codeColumn, labelColumn, termColumn]);
+  return { codeColumn, labelColumn, termColumn, descriptionColumn };
+};
+
+const termKey = (term: string) => normalizeInputText(term);
+
+// Builds entries from the mapped columns and flags problems without writing anything:
+// missing fields, codes not in the bundled hierarchy, repeats within the file, and
+// terms the knowledge base already maps to the same (exists) or another (conflict) code
+export const analyzeReferenceImport = async (
+  rows: RawDataRow[],
+  mapping: ReferenceColumnMapping,
+  module: ModuleType
+): Promise<ReferenceImportItem[]> => {
+  const existingByTerm = new Map<string, ReferenceEntry>();
+  (await listReferenceEntries(module)).forEach(e => existingByTerm.set(termKey(e.term), e));
+
+  const seenInFile = new Map<string, string>(); // term key -> code
+  const now = Date.now();
+
+  return rows.map(row => {
+    const rawCode = String(row[mapping.codeColumn] ?? '').trim();
+    const rawLabel = mapping.labelColumn ? String(row[mapping.labelColumn] ?? '').trim() : '';
+    const term = (mapping.termColumn ? String(row[mapping.termColumn] ?? '').trim() : '') || rawLabel;
+    const description = mapping.descriptionColumn ? String(row[mapping.descriptionColumn] ?? '').trim() : '';
+
+    const entry: ReferenceEntry = {
+      id: crypto.randomUUID(),
+      module,
+      code: rawCode,
+      label: rawLabel,
+      term,
+      ...(description ? { description } : {}),
+      source: 'upload',
+      addedAt: now
+    };
+
+    if (!rawCode || !term) {
+      return { entry, issue: 'missing', message: !rawCode ? 'No code' : 'No term or label' };
+    }
+
+    // Dictionary entries may legitimately use coarse codes, so any level is accepted
+    const validation = validateCodedResult({ code: rawCode, label: rawLabel, confidence: 'Reference' }, module, 1);
+    entry.code = validation.result.code;
+    entry.label = rawLabel || validation.result.label;
+    if (validation.error) {
+      return { entry, issue: 'invalid', message: validation.error };
+    }
+
+    const key = termKey(term);
+    const previousCode = seenInFile.get(key);
+    if (previousCode !== undefined) {
+      return { 
+        entry, 
+        issue: 'duplicate', 
+        message: previousCode === entry.code ? 'Repeated in file' : `Repeated in file with code ${previousCode}` 
+      };
+    }
+    seenInFile.set(key, entry.code);
+
+    const existing = existingByTerm.get(key);
+    if (existing) {
+      return existing.code === entry.code
+        ? { entry, issue: 'exists', message: 'Already in knowledge base', existing }
+        : { entry, issue: 'conflict', message: `Knowledge base has ${existing.code} (${existing.label})`, existing };
+    }
+    return { entry };
+  });
+};
+
+// merge: add new entries, keep entries already present; conflicts either keep the existing
+// entry or are overwritten by the imported one.
+// replace: clear the module first, then add every valid entry.
+export const applyReferenceImport = async (
+  items: ReferenceImportItem[],
+  module: ModuleType,
+  mode: 'merge' | 'replace',
+  overwriteConflicts: boolean
+): Promise<number> => {
+  if (mode === 'replace') {
+    const entries = items.filter(i => !i.issue || i.issue === 'exists' || i.issue === 'conflict').map(i => i.entry);
+    await replaceReferenceEntries(entries, { module });
+    return entries.length;
+  }
+
+  const toAdd = items.filter(i => !i.issue || (overwriteConflicts && i.issue === 'conflict'));
+  const replaced = toAdd.filter(i => i.existing).map(i => i.existing!.id);
+  await replaceReferenceEntries(toAdd.map(i => i.entry), { ids: replaced });
+  return toAdd.length;
+};
@@ -0,0 +1,41 @@
+import { CodedResult, ModuleSettings, ProcessedRow, ReviewRules, ReviewState } from "../types";
+import { isDisputed } from "./ensembleService";
+
+export const DEFAULT_REVIEW_RULES: ReviewRules = {
+  lowConfidence: true,
+  mediumConfidence: false,
+  nonDictionary: false,
+  validationFailure: true,
+  modelDisagreement: true
+};
+
+export const getReviewRules = (moduleSettings?: ModuleSettings): ReviewRules => ({
+  ...DEFAULT_REVIEW_RULES,
+  ...moduleSettings?.review
+});
+
+// The first rule that applies, shown to reviewers as the reason; undefined when the row needs no review.
+// Dual results are judged by both halves.
+export const getReviewReason = (result: CodedResult, error: string | undefined, rules: ReviewRules): string | undefined => {
+  if (error) return rules.validationFailure ? 'Validation failed' : undefined;
+  if (rules.modelDisagreement && result.ensemble && isDisputed(result.ensemble)) return 'Models disagree';
+  const parts = result.dual ? [result.dual.isco, result.dual.isic] : [result];
+  if (rules.lowConfidence && parts.some(p => p.confidence === 'Low')) return 'Low confidence';
+  if (rules.mediumConfidence && parts.some(p => p.confidence === 'Medium')) return 'Medium confidence';
+  if (rules.nonDictionary && parts.some(p => !p.match)) return 'Not from knowledge base';
+  return undefined;
+};
+
+export interface ReviewProgress {
+  queued: number;   // Rows ever routed to review
+  pending: number;  // Still waiting for a decision
+  flagged: number;
+  approved: number;
+  rejected: number;
+}
+
+export const getReviewProgress = (rows: ProcessedRow[]): ReviewProgress => {
+  const count = (state: ReviewState) => rows.filter(r => r.reviewState === state).length;
+  const progress = { pending: count('needs-review'), flagged: count('flagged'), approved: count('approved'), rejected: count('rejected') };
+  return { ...progress, queued: progress.pending + progress.flagged + progress.approved + progress.rejected };
+};
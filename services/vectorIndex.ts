@@ -0,0 +1,177 @@
+import { AISettings, MatchSettings, ModuleType, ReferenceEntry, ReferenceVector, RetrievalSettings } from "../types";
+import { 
+  listReferenceEntries, getReferenceVectors, saveReferenceVectors, searchReferences, getReferenceGeneration 
+} from "./dbService";
+import { embedTexts, getEmbeddingModelId } from "./geminiService";
+import { getProviderLimits, withRetry } from "./jobQueue";
+
+export const DEFAULT_RETRIEVAL: RetrievalSettings = {
+  examples: 3,
+  semantic: false,
+  embeddingSource: 'provider',
+  embeddingModel: '',
+  embeddingUrl: '',
+  semanticWeight: 0.6
+};
+
+export const getRetrievalSettings = (settings: AISettings): RetrievalSettings => ({
+  ...DEFAULT_RETRIEVAL,
+  ...settings.retrieval
+});
+
+const EMBED_BATCH_SIZE = 64;
+const CANDIDATES = 20;          // Taken from each ranking before they are merged
+const QUERY_CACHE_SIZE = 2000;
+const FAILURE_BACKOFF_MS = 60000; // After a failed embedding call, use fuzzy matching only for a while
+
+interface ModuleIndex {
+  model: string;
+  generation: number;
+  entries: ReferenceEntry[];
+  vectors: Map<string, Float32Array>; // Unit-length, keyed by entry id
+}
+
+const indexCache: Partial<Record<ModuleType, ModuleIndex>> = {};
+const pendingBuilds = new Map<string, Promise<ModuleIndex>>();
+const queryCache = new Map<string, Float32Array>();
+let lastFailureAt = 0;
+
+const toUnitVector = (values: number[]): Float32Array => {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+};
+
+const cosine = (a: Float32Array, b: Float32Array): number => {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const embedWithRetry = (texts: string[], settings: AISettings) => 
+  withRetry(() => embedTexts(texts, settings), { maxRetries: getProviderLimits(settings).maxRetries });
+
+// Embeds approved entries that have no vector for the current model (or whose term changed
+// since) and returns the number of entries embedded
+export const buildVectorIndex = async (
+  module: ModuleType,
+  settings: AISettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const model = getEmbeddingModelId(settings);
+  const generation = getReferenceGeneration();
+  const entries = (await listReferenceEntries(module)).filter(e => e.status !== 'pending');
+  const stored = new Map<string, ReferenceVector>();
+  (await getReferenceVectors(module)).forEach(v => {
+    if (v.model === model) stored.set(v.id, v);
+  });
+
+  const missing = entries.filter(e => stored.get(e.id)?.term !== e.term);
+  onProgress?.(0, missing.length);
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await embedWithRetry(batch.map(e => e.term), settings);
+    const vectors: ReferenceVector[] = batch.map((e, j) => ({ id: e.id, module, model, term: e.term, vector: embeddings[j] }));
+    await saveReferenceVectors(vectors);
+    vectors.forEach(v => stored.set(v.id, v));
+    onProgress?.(Math.min(i + EMBED_BATCH_SIZE, missing.length), missing.length);
+  }
+
+  const vectors = new Map<string, Float32Array>();
+  entries.forEach(e => {
+    const v = stored.get(e.id);
+    if (v) vectors.set(e.id, toUnitVector(v.vector));
+  });
+  indexCache[module] = { model, generation, entries, vectors };
+  return missing.length;
+};
+
+// Parallel queue workers share one build per module and model
+const getModuleIndex = async (module: ModuleType, settings: AISettings): Promise<ModuleIndex> => {
+  const model = getEmbeddingModelId(settings);
+  const cached = indexCache[module];
+  if (cached && cached.model === model && cached.generation === getReferenceGeneration()) return cached;
+
+  const key = `${module}|${model}`;
+  let build = pendingBuilds.get(key);
+  if (!build) {
+    build = buildVectorIndex(module, settings)
+      .then(() => indexCache[module]!)
+      .finally(() => pendingBuilds.delete(key));
+    pendingBuilds.set(key, build);
+  }
+  return build;
+};
+
+const embedQuery = async (text: string, settings: AISettings): Promise<Float32Array> => {
+  const key = `${getEmbeddingModelId(settings)}\u0000${text.trim().toLowerCase()}`;
+  const cached = queryCache.get(key);
+  if (cached) return cached;
+
+  const [values] = await embedWithRetry([text], settings);
+  const vector = toUnitVector(values);
+  if (queryCache.size >= QUERY_CACHE_SIZE) queryCache.delete(queryCache.keys().next().value as string);
+  queryCache.set(key, vector);
+  return vector;
+};
+
+// Few-shot examples for a row: fuzzy term matches, optionally re-ranked together with
+// embedding neighbours so synonyms and translations ("nurse" / "midwife" / "Krankenpfleger") are found
+export const retrieveExamples = async (
+  term: string, 
+  module: ModuleType, 
+  settings: AISettings, 
+  matching?: MatchSettings
+): Promise<ReferenceEntry[]> => {
+  const retrieval = getRetrievalSettings(settings);
+  const limit = Math.max(0, Math.floor(retrieval.examples));
+  if (limit === 0 || !term || term.trim() === '') return [];
+
+  let lexical: { entry: ReferenceEntry, score: number }[] = [];
+  try {
+    lexical = await searchReferences(term, module, Math.max(limit, CANDIDATES), matching);
+  } catch (e) {
+    console.error(`[Retrieval] Fuzzy search failed for module: ${module}`, e);
+  }
+
+  if (!retrieval.semantic || Date.now() - lastFailureAt < FAILURE_BACKOFF_MS) {
+    return lexical.slice(0, limit).map(r => r.entry);
+  }
+
+  try {
+    const index = await getModuleIndex(module, settings);
+    if (index.vectors.size === 0) return lexical.slice(0, limit).map(r => r.entry);
+    const query = await embedQuery(term, settings);
+
+    const semantic = index.entries
+      .filter(e => index.vectors.has(e.id))
+      .map(entry => ({ entry, similarity: cosine(query, index.vectors.get(entry.id)!) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, CANDIDATES);
+
+    // Hybrid score over the union of both candidate lists
+    const weight = Math.min(1, Math.max(0, retrieval.semanticWeight));
+    const candidates = new Map<string, { entry: ReferenceEntry, lexical: number, semantic: number }>();
+    lexical.forEach(({ entry, score }) => {
+      const vector = index.vectors.get(entry.id);
+      candidates.set(entry.id, { entry, lexical: 1 - score, semantic: vector ? Math.max(0, cosine(query, vector)) : 0 });
+    });
+    semantic.forEach(({ entry, similarity }) => {
+      if (!candidates.has(entry.id)) candidates.set(entry.id, { entry, lexical: 0, semantic: Math.max(0, similarity) });
+    });
+
+    return Array.from(candidates.values())
+      .map(c => ({ entry: c.entry, score: (1 - weight) * c.lexical + weight * c.semantic }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(c => c.entry);
+  } catch (e) {
+    lastFailureAt = Date.now();
+    console.warn(`[Retrieval] Semantic search unavailable for ${module}; using fuzzy matches only`, e);
+    return lexical.slice(0, limit).map(r => r.entry);
+  }
+};
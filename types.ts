@@ -8,7 +8,7 @@ export enum CodingStatus {
 }
 
 export interface RawDataRow {
-  id: string;
+  rowKey: string; // Internal immutable key, never taken from the file
   [key: string]: any;
 }
 
@@ -17,6 +17,48 @@ export interface CodedResult {
   label: string;
   confidence: string; // 'High' | 'Medium' | 'Low' | 'Manual' | 'Reference'
   reasoning?: string;
+  level?: number; // Hierarchy level of the code (1 = most aggregated, e.g. ISCO major group)
+  classificationVersion?: string; // Hierarchy version the code was validated against
+  match?: ReferenceMatch; // Set when the code came from a knowledge base entry
+  dual?: DualResult;      // Dual coding: the two classifications; code/label above summarize the pair
+  promptVersion?: string; // Id of the prompt template version that produced the result
+  candidates?: CodeCandidate[]; // Ranked model candidates; moved to ProcessedRow.candidates when the row is updated
+  ensemble?: EnsembleOutcome;   // Set when several models coded the row
+}
+
+// One model's answer in ensemble coding
+export interface ModelVote {
+  model: string;      // "<provider>:<model>"
+  code: string;       // Canonical code ('' when the model failed)
+  label: string;
+  confidence: string; // The model's own confidence
+  error?: string;     // The model failed and its vote was not counted
+}
+
+export interface EnsembleOutcome {
+  votes: ModelVote[];
+  agreement: number; // Share of answering models that chose the final code (0..1)
+}
+
+// One of the codes the model weighed for a row, best first
+export interface CodeCandidate {
+  code: string;
+  label: string;
+  score: number;             // Model's estimate, 0..1
+  part?: keyof DualResult;   // Dual coding: which half the candidate belongs to
+}
+
+export interface DualResult {
+  isco: CodedResult;
+  isic: CodedResult;
+}
+
+// Knowledge base entry that auto-coded a row, kept so reviewers can audit dictionary hits
+export interface ReferenceMatch {
+  entryId: string;
+  term: string;   // Term of the matched entry
+  score: number;  // Fuse score (0 = exact, 1 = no match)
+  mode: MatchMode;
 }
 
 export interface SearchResult {
@@ -30,6 +72,72 @@ export interface ProcessedRow extends RawDataRow {
   result?: CodedResult;
   errorMessage?: string;
   manuallyEdited?: boolean;
+  retryCount?: number; // Retries needed after rate-limit / server errors
+  sharedFrom?: string; // rowKey of the identical-input row whose coding was reused
+  sourceId?: string;   // Value of the mapped ID column ('' when none is mapped)
+  tertiaryText?: string; // Mapped industry column, used by dual coding
+  candidates?: CodeCandidate[]; // Alternatives from the last AI coding; kept when a reviewer switches code
+  reviewState?: ReviewState; // Missing when no routing rule sent the row to review
+  reviewReason?: string;     // Rule that routed the row, e.g. "Low confidence"
+  editedBy?: string;     // Coder name recorded with the last manual edit
+  doubleCoding?: DoubleCoding; // Set on rows drawn into the double-coding sample
+  history?: RowChange[];       // Append-only change log, oldest first
+}
+
+// One entry of a row's audit trail
+export interface RowChange {
+  at: number;
+  action: 'coded' | 'edited' | 'reviewed' | 'deleted';
+  source: 'ai' | 'knowledge-base' | 'coder';
+  actor: string;        // Model id(s), "Knowledge base" or the coder's name
+  before?: CodedResult; // Missing for the first coding
+  after?: CodedResult;  // Missing for review decisions and deletions
+  note?: string;
+}
+
+// Quality control: a sampled row coded a second time without seeing the first result
+export interface DoubleCoding {
+  first: CoderDecision;   // Row's result when the sample was drawn
+  second?: CoderDecision; // Independent code; missing until the second coder reaches the row
+  resolution?: 'first' | 'second'; // Adjudication of a disagreement
+}
+
+export interface CoderDecision {
+  code: string;
+  label: string;
+  coder: string; // Coder name, or "AI" / "Knowledge base" for automatic results
+  codedAt: number;
+}
+
+export interface ModuleSettings {
+  minLevel?: number; // Coarsest level the model may fall back to; defaults to the leaf level (no fallback)
+  matching?: Partial<MatchSettings>;
+  review?: Partial<ReviewRules>;
+}
+
+// Human review of coded rows, separate from codingStatus (AI progress)
+export type ReviewState = 'needs-review' | 'approved' | 'rejected' | 'flagged';
+
+// Which coded rows are routed to the review queue
+export interface ReviewRules {
+  lowConfidence: boolean;
+  mediumConfidence: boolean;
+  nonDictionary: boolean;     // Every row the knowledge base did not code
+  validationFailure: boolean; // Invalid or too coarse codes
+  modelDisagreement: boolean; // Ensemble models disagreed
+}
+
+// 'exact': identical text (ignoring case and surrounding spaces)
+// 'normalized': identical ignoring case, extra whitespace and trailing punctuation
+// 'fuzzy': normalized hits plus near matches up to `autoCodeScore`
+export type MatchMode = 'exact' | 'normalized' | 'fuzzy';
+
+// How the knowledge base is searched before calling the AI
+export interface MatchSettings {
+  mode: MatchMode;
+  autoCodeScore: number;   // Highest Fuse score auto-coded in fuzzy mode
+  searchThreshold: number; // Fuse threshold for fuzzy candidates and RAG examples
+  keys: ('term' | 'label')[];
 }
 
 export interface ColumnMapping {
@@ -43,7 +151,29 @@ export enum ModuleType {
   ISCO08 = 'ISCO-08',
   ISIC4 = 'ISIC Rev. 4',
   COICOP = 'COICOP 2018',
-  DUAL = 'Dual Coding (ISCO + ISIC)'
+  DUAL = 'Dual Coding (ISCO + ISIC)',
+  NACE2 = 'NACE Rev. 2',
+  ISCED11 = 'ISCED 2011',
+  SOC2018 = 'SOC 2018',
+  ANZSCO = 'ANZSCO',
+  CPC21 = 'CPC Ver. 2.1'
+}
+
+// Scheme definitions (names, code formats, prompts, field roles) live in services/classificationRegistry.ts
+
+// One saved version of a module's coding prompt. Version 0 is the built-in default and is not stored.
+// Variables: {primary}, {secondary}, {tertiary} (task only), {examples}, {levels} and {rules}.
+export interface PromptTemplate {
+  id: string;           // "<module>@v<version>"
+  module: ModuleType;
+  version: number;
+  system: string;       // System prompt
+  instructions: string; // Shared by single-row and batched prompts
+  task: string;         // Single-row task line
+  rules: string;        // Local coding rules, one per line (e.g. "street vendor -> 5211, not 9520")
+  note?: string;        // What changed in this version
+  createdAt: number;
+  createdBy?: string;
 }
 
 export enum AIProvider {
@@ -53,11 +183,63 @@ export enum AIProvider {
   Local = 'LOCAL'
 }
 
+export interface ProviderLimits {
+  concurrency: number;       // Parallel requests in flight
+  requestsPerMinute: number; // 0 = unlimited
+  tokensPerMinute: number;   // 0 = unlimited (estimated from prompt length)
+  maxRetries: number;        // Retries on 429 / 5xx / network errors
+  batchSize: number;         // Rows per request (1 = one prompt per row)
+}
+
 export interface AISettings {
   provider: AIProvider;
   apiKey?: string;     // User-supplied key for OpenAI/DeepSeek
   baseUrl?: string;    // Override URL for Local/DeepSeek
   model: string;       // Model name (e.g., 'gpt-4o', 'deepseek-chat', 'qwen2.5')
+  limits?: Partial<Record<AIProvider, Partial<ProviderLimits>>>; // Throughput overrides per provider
+  coderName?: string;  // Recorded on knowledge base entries learned from this user's corrections
+  retrieval?: Partial<RetrievalSettings>;
+  ensemble?: EnsembleSettings;
+}
+
+// Ensemble coding: every row is also coded by the members and the answers are compared
+export interface EnsembleSettings {
+  enabled: boolean;
+  members: EnsembleMember[]; // Models besides the main provider, which always votes first
+}
+
+export interface EnsembleMember {
+  id: string;
+  provider: AIProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// How dictionary examples are picked for the prompt
+export interface RetrievalSettings {
+  examples: number;                     // Similar entries sent to the model with each row
+  semantic: boolean;                    // Rank by embeddings as well as fuzzy term matching
+  embeddingSource: 'provider' | 'local'; // Active AI provider, or a separate OpenAI-compatible endpoint
+  embeddingModel: string;               // Empty = provider default
+  embeddingUrl: string;                 // Full /embeddings URL for the local source
+  semanticWeight: number;               // 0..1 share of the semantic score in the hybrid rank
+}
+
+export interface ReferenceVector {
+  id: string;        // ReferenceEntry id
+  module: ModuleType;
+  model: string;     // Embedding model id the vector was made with
+  term: string;      // Term at embedding time; a changed term is re-embedded
+  vector: number[];
+}
+
+export interface ClassificationNode {
+  code: string;       // Canonical code (e.g. "2512", "C", "01.1.1")
+  label: string;      // Official label
+  level: number;      // 1 = most aggregated (major group / section / division)
+  parent?: string;
+  isLeaf: boolean;
 }
 
 export interface ReferenceEntry {
@@ -69,4 +251,120 @@ export interface ReferenceEntry {
   description?: string;
   source: 'upload' | 'learned';
   addedAt: number;
+  status?: 'pending' | 'approved'; // Learned entries start pending; missing = approved
+  provenance?: LearnedProvenance;
+}
+
+// Where a learned entry came from
+export interface LearnedProvenance {
+  sessionId?: string;
+  sessionName?: string;
+  coder?: string;
+  learnedAt: number;
+  originalCode?: string;       // AI code before the correction (empty if there was none)
+  originalConfidence?: string;
+}
+
+export interface CodingSession {
+  id: string;
+  name: string;
+  module: ModuleType;
+  mapping: ColumnMapping;
+  moduleSettings?: ModuleSettings;
+  columns: string[];
+  rows: ProcessedRow[];
+  deletedRows?: ProcessedRow[]; // Removed rows, kept with their history for the audit trail
+  progress: { total: number; current: number };
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Lightweight listing record; rows are stored separately so listing stays cheap
+export interface SessionSummary {
+  id: string;
+  name: string;
+  module: ModuleType;
+  totalRows: number;
+  codedRows: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CsvOptions {
+  delimiter: string; // ',', ';', '\t' or '|'
+  encoding: string;  // TextDecoder label, e.g. 'utf-8', 'windows-1252'
+}
+
+export interface CsvPreview extends CsvOptions {
+  bom: boolean;       // A byte order mark was found (and is skipped when parsing)
+  records: string[][]; // First records including the header row
+}
+
+export interface SpreadsheetOptions {
+  sheetName: string;
+  headerRow: number;      // 0-based row index of the header within the sheet
+  skipFootnotes: boolean; // Drop trailing source/note rows below the table
+}
+
+export interface SpreadsheetPreview extends SpreadsheetOptions {
+  sheetNames: string[];
+  records: string[][];  // First rows of the sheet as displayed in the picker
+  totalRows: number;
+  footnoteRows: number; // Trailing rows that will be skipped when skipFootnotes is on
+}
+
+export interface IdColumnReport {
+  blankRows: number;                             // Rows with an empty ID
+  duplicates: { value: string; count: number }[]; // IDs used by more than one row, most frequent first
+  duplicateRows: number;                         // Rows sharing an ID with another row
+}
+
+export interface ReferenceColumnMapping {
+  codeColumn: string;
+  labelColumn: string;
+  termColumn: string;        // Search term; falls back to the label when empty
+  descriptionColumn: string; // Optional
+}
+
+export type ReferenceImportIssue = 'missing' | 'invalid' | 'duplicate' | 'conflict' | 'exists';
+
+export interface ReferenceImportItem {
+  entry: ReferenceEntry;
+  issue?: ReferenceImportIssue;
+  message?: string;
+  existing?: ReferenceEntry; // Entry already in the knowledge base for the same term
+}
+
+export interface ReferenceQuery {
+  module?: ModuleType;
+  source?: ReferenceEntry['source'];
+  codePrefix?: string;
+  search?: string;  // Matches term or label
+  offset: number;
+  limit: number;
+}
+
+// Entries of one module whose terms normalize to the same text but carry different codes
+export interface ReferenceConflict {
+  module: ModuleType;
+  term: string;
+  entries: ReferenceEntry[];
+}
+
+export interface KnowledgeBundle {
+  format: 'statcode-knowledge-base';
+  version: number;     // Bundle schema version
+  dbVersion: number;   // IndexedDB schema the entries were exported from
+  exportedAt: number;
+  exportedBy?: string;
+  modules: ModuleType[];
+  classificationVersions: Partial<Record<ModuleType, string>>;
+  entries: ReferenceEntry[];
+}
+
+export type BundleMergeStrategy = 'newest' | 'upload-first' | 'prompt';
+
+export interface BundleConflict {
+  existing: ReferenceEntry;
+  incoming: ReferenceEntry;
 }
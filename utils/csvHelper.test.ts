@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { RawDataRow } from '../types';
+import { checkIdColumn } from './csvHelper';
+
+const rows = (ids: (string | number | undefined)[]): RawDataRow[] =>
+  ids.map((id, i) => ({ rowKey: `row-${i}`, ...(id === undefined ? {} : { id }) }));
+
+describe('checkIdColumn', () => {
+  it('reports blank IDs and duplicates, most frequent first', () => {
+    const report = checkIdColumn(rows(['1', '2', '2', ' ', undefined, '3', '3', '3']), 'id');
+    expect(report.blankRows).toBe(2);
+    expect(report.duplicates).toEqual([{ value: '3', count: 3 }, { value: '2', count: 2 }]);
+    expect(report.duplicateRows).toBe(5);
+  });
+
+  it('compares IDs as trimmed text', () => {
+    const report = checkIdColumn(rows([7, '7 ', '8']), 'id');
+    expect(report.duplicates).toEqual([{ value: '7', count: 2 }]);
+  });
+
+  it('is clean for unique IDs', () => {
+    expect(checkIdColumn(rows(['a', 'b']), 'id')).toEqual({ blankRows: 0, duplicates: [], duplicateRows: 0 });
+  });
+});
@@ -1,155 +1,273 @@
-import { RawDataRow, ProcessedRow } from "../types";
+import { RawDataRow, ProcessedRow, CsvOptions, SpreadsheetOptions, SpreadsheetPreview, IdColumnReport } from "../types";
+import { previewCsvFile, readCsvFile, makeUniqueHeaders } from "./csvParser";
+import { getAuditTrail } from "../services/auditService";
 
 declare const XLSX: any;
 
+// Excel and OpenDocument spreadsheets go through SheetJS; everything else is delimited text
+export const isSpreadsheetFile = (file: File): boolean => /\.(xlsx|xls|ods)$/i.test(file.name);
+
 // Unified File Parser (CSV & Excel & ODS)
-export const parseDataFile = (file: File): Promise<RawDataRow[]> => {
-  return new Promise((resolve, reject) => {
-    // Check for Excel or OpenDocument Spreadsheet extensions
-    const isSpreadsheet = file.name.endsWith('.xlsx') || file.name.endsWith('.xls') || file.name.endsWith('.ods');
+// CSV delimiter and encoding are auto-detected unless the user overrode them in the preview step;
+// spreadsheets default to the first sheet and a detected header row
+export const parseDataFile = async (
+  file: File, 
+  csvOptions?: CsvOptions, 
+  sheetOptions?: SpreadsheetOptions
+): Promise<RawDataRow[]> => {
+  if (!isSpreadsheetFile(file)) {
+    const options = csvOptions || await previewCsvFile(file);
+    return readCsvFile(file, options);
+  }
+
+  const workbook = await readWorkbook(file);
+  return sheetToRows(workbook, sheetOptions || previewSpreadsheet(workbook));
+};
 
+export const readWorkbook = (file: File): Promise<any> => {
+  return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
-    if (isSpreadsheet) {
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          if (!data) {
-             reject("Empty file");
-             return;
-          }
-
-          // Suppress noisy ODS warnings from SheetJS
-          const originalConsoleLog = console.log;
-          const originalConsoleError = console.error;
-          
-          const suppressMsg = (args: any[]) => 
-            args.some(a => typeof a === 'string' && a.includes('ODS number format'));
-
-          console.log = (...args) => {
-            if (!suppressMsg(args)) originalConsoleLog.apply(console, args);
-          };
-          console.error = (...args) => {
-             if (!suppressMsg(args)) originalConsoleError.apply(console, args);
-          };
-
-          let workbook;
-          try {
-            // Use type: 'array' for ArrayBuffer which is more robust for binary formats like ODS
-            workbook = XLSX.read(data, { type: 'array' });
-          } finally {
-            console.log = originalConsoleLog;
-            console.error = originalConsoleError;
-          }
-
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(sheet, { header: 1 }); // Array of arrays
-
-          if (!jsonData || jsonData.length === 0) {
-             resolve([]);
-             return;
-          }
-
-          const headers = (jsonData[0] as string[]).map((h: string) => h?.trim() || '');
-          const rows: RawDataRow[] = [];
-
-          for (let i = 1; i < jsonData.length; i++) {
-             const rowVals = jsonData[i] as any[];
-             if (!rowVals || rowVals.length === 0) continue;
-
-             const row: RawDataRow = { id: crypto.randomUUID() };
-             headers.forEach((header, index) => {
-                if (header) {
-                   row[header] = rowVals[index] !== undefined ? String(rowVals[index]).trim() : '';
-                }
-             });
-             rows.push(row);
-          }
-          resolve(rows);
-
-        } catch (err) {
-          reject(err);
-        }
-      };
-      // Read as ArrayBuffer for better binary support (XLSX/ODS)
-      reader.readAsArrayBuffer(file);
-    } else {
-      // CSV handling
-      reader.onload = (e) => {
-        const text = e.target?.result as string;
-        if (!text) {
-           resolve([]); 
+    reader.onload = (e) => {
+      try {
+        const data = e.target?.result;
+        if (!data) {
+           reject("Empty file");
            return;
         }
-        const lines = text.split(/\r\n|\n/);
-        const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-        
-        const data: RawDataRow[] = [];
+
+        // Suppress noisy ODS warnings from SheetJS
+        const originalConsoleLog = console.log;
+        const originalConsoleError = console.error;
         
-        for (let i = 1; i < lines.length; i++) {
-          if (!lines[i].trim()) continue;
-          
-          const row: RawDataRow = { id: crypto.randomUUID() };
-          const values: string[] = [];
-          let inQuote = false;
-          let currentValue = '';
-          
-          for (const char of lines[i]) {
-            if (char === '"') {
-              inQuote = !inQuote;
-            } else if (char === ',' && !inQuote) {
-              values.push(currentValue);
-              currentValue = '';
-            } else {
-              currentValue += char;
-            }
-          }
-          values.push(currentValue);
-
-          headers.forEach((header, index) => {
-            row[header] = values[index]?.trim().replace(/^"|"$/g, '') || '';
-          });
-          
-          data.push(row);
-        }
-        resolve(data);
-      };
-      reader.readAsText(file);
-    }
+        const suppressMsg = (args: any[]) => 
+          args.some(a => typeof a === 'string' && a.includes('ODS number format'));
+
+        console.log = (...args) => {
+          if (!suppressMsg(args)) originalConsoleLog.apply(console, args);
+        };
+        console.error = (...args) => {
+           if (!suppressMsg(args)) originalConsoleError.apply(console, args);
+        };
 
+        try {
+          // Use type: 'array' for ArrayBuffer which is more robust for binary formats like ODS
+          resolve(XLSX.read(data, { type: 'array' }));
+        } finally {
+          console.log = originalConsoleLog;
+          console.error = originalConsoleError;
+        }
+      } catch (err) {
+        reject(err);
+      }
+    };
+    // Read as ArrayBuffer for better binary support (XLSX/ODS)
+    reader.readAsArrayBuffer(file);
     reader.onerror = (err) => reject(err);
   });
 };
 
-export const exportData = (rows: ProcessedRow[], baseFilename: string, format: 'csv' | 'xlsx' | 'ods') => {
+// All rows of a sheet as trimmed strings; blank rows are kept so indices match the sheet
+const getSheetRecords = (workbook: any, sheetName: string): string[][] => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return [];
+  const jsonData: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, blankrows: true, defval: '' }); // Array of arrays
+  return jsonData.map(row => (row || []).map(value => value !== undefined && value !== null ? String(value).trim() : ''));
+};
+
+const filledCells = (record: string[]) => record.filter(value => value !== '').length;
+
+// Title rows above a table usually fill one cell; the header is the first row that fills
+// at least half as many cells as the widest row near the top of the sheet
+const detectHeaderRow = (records: string[][]): number => {
+  const sample = records.slice(0, 50);
+  const widest = Math.max(0, ...sample.map(filledCells));
+  const index = sample.findIndex(r => filledCells(r) >= Math.max(2, Math.ceil(widest / 2)));
+  return index >= 0 ? index : Math.max(0, sample.findIndex(r => filledCells(r) > 0));
+};
+
+// Trailing blank rows and rows that fill a single cell ("Source: ...", "Note: ...")
+// below a multi-column table
+const countFootnoteRows = (records: string[][], headerRow: number): number => {
+  const columns = filledCells(records[headerRow] || []);
+  if (columns < 2) return 0;
+  let count = 0;
+  for (let i = records.length - 1; i > headerRow; i--) {
+    if (filledCells(records[i]) > 1) break;
+    count++;
+  }
+  return count;
+};
+
+const PREVIEW_ROWS = 20;
+
+export const previewSpreadsheet = (workbook: any, overrides: Partial<SpreadsheetOptions> = {}): SpreadsheetPreview => {
+  const sheetNames: string[] = workbook.SheetNames || [];
+  const sheetName = overrides.sheetName && sheetNames.includes(overrides.sheetName) ? overrides.sheetName : sheetNames[0];
+  const records = getSheetRecords(workbook, sheetName);
+  const headerRow = Math.min(overrides.headerRow ?? detectHeaderRow(records), Math.max(0, records.length - 1));
+
+  return {
+    sheetNames,
+    sheetName,
+    headerRow,
+    skipFootnotes: overrides.skipFootnotes ?? true,
+    records: records.slice(0, Math.max(PREVIEW_ROWS, headerRow + 10)),
+    totalRows: records.length,
+    footnoteRows: countFootnoteRows(records, headerRow)
+  };
+};
+
+export const sheetToRows = (workbook: any, options: SpreadsheetOptions): RawDataRow[] => {
+  const records = getSheetRecords(workbook, options.sheetName);
+  if (records.length <= options.headerRow) return [];
+
+  const end = records.length - (options.skipFootnotes ? countFootnoteRows(records, options.headerRow) : 0);
+  const body = records.slice(options.headerRow + 1, end);
+  const width = body.reduce((max, r) => Math.max(max, r.length), records[options.headerRow].length);
+  const headers = makeUniqueHeaders(records[options.headerRow], width);
+
+  const rows: RawDataRow[] = [];
+  body.forEach(rowVals => {
+     if (filledCells(rowVals) === 0) return;
+
+     const row: RawDataRow = { rowKey: crypto.randomUUID() };
+     headers.forEach((header, index) => {
+        row[header] = rowVals[index] ?? '';
+     });
+     rows.push(row);
+  });
+  return rows;
+};
+
+// Blank and repeated values in the column the user mapped as ID
+export const checkIdColumn = (rows: RawDataRow[], idColumn: string): IdColumnReport => {
+  const counts = new Map<string, number>();
+  let blankRows = 0;
+  rows.forEach(row => {
+    const value = String(row[idColumn] ?? '').trim();
+    if (!value) {
+      blankRows++;
+      return;
+    }
+    counts.set(value, (counts.get(value) || 0) + 1);
+  });
+
+  const duplicates = Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    blankRows,
+    duplicates,
+    duplicateRows: duplicates.reduce((sum, d) => sum + d.count, 0)
+  };
+};
+
+// The audit trail goes to its own sheet, or for CSV to a second file next to the data
+export const exportData = (rows: ProcessedRow[], baseFilename: string, format: 'csv' | 'xlsx' | 'ods', deletedRows: ProcessedRow[] = []) => {
   if (rows.length === 0) return;
 
+  // Dual coding exports each classification in its own columns instead of the combined summary
+  const isDual = rows.some(row => row.result?.dual);
+  const isEnsemble = rows.some(row => row.result?.ensemble);
+  const isDoubleCoded = rows.some(row => row.doubleCoding);
+
   // Flatten and structure the data for export
   const exportData = rows.map(row => {
     // Extract internal fields to keep specific order or exclude them
-    const { id, result, codingStatus, errorMessage, manuallyEdited, primaryText, secondaryText, ...rest } = row;
+    const { rowKey, sourceId, result, codingStatus, errorMessage, manuallyEdited, retryCount, sharedFrom, primaryText, secondaryText, tertiaryText, candidates, reviewState, reviewReason, editedBy, doubleCoding, history, ...rest } = row;
+    const codeColumns = isDual ? {
+      ISCO_Code: result?.dual?.isco.code || '',
+      ISCO_Label: result?.dual?.isco.label || '',
+      ISCO_Level: result?.dual?.isco.level ?? '',
+      ISCO_Confidence: result?.dual?.isco.confidence || '',
+      ISIC_Code: result?.dual?.isic.code || '',
+      ISIC_Label: result?.dual?.isic.label || '',
+      ISIC_Level: result?.dual?.isic.level ?? '',
+      ISIC_Confidence: result?.dual?.isic.confidence || ''
+    } : {
+      Code: result?.code || '',
+      Label: result?.label || '',
+      Code_Level: result?.level ?? ''
+    };
     
-    // Combine original data with results
+    // Combine original data with results; the user's ID column is part of `rest` and
+    // is written back under its original name and value
     return {
-      ID: id,
       Input_Text: primaryText,
       Context: secondaryText,
       ...rest, // Other original columns
-      Code: result?.code || '',
-      Label: result?.label || '',
+      ...codeColumns,
       Confidence: result?.confidence || '',
+      Classification: result?.classificationVersion || '',
+      Prompt_Version: result?.promptVersion || '',
       Status: codingStatus,
-      Reasoning: result?.reasoning || '',
+      ...(isDual ? {
+        ISCO_Reasoning: result?.dual?.isco.reasoning || '',
+        ISIC_Reasoning: result?.dual?.isic.reasoning || '',
+        ISCO_Matched_Term: result?.dual?.isco.match?.term || '',
+        ISIC_Matched_Term: result?.dual?.isic.match?.term || ''
+      } : {
+        Reasoning: result?.reasoning || '',
+        Matched_Term: result?.match?.term || '',
+        Match_Score: result?.match ? Number(result.match.score.toFixed(4)) : ''
+      }),
+      Candidates: (candidates || [])
+        .map(c => `${c.part ? `${c.part.toUpperCase()} ` : ''}${c.code} (${c.score.toFixed(2)})`)
+        .join('; '),
+      ...(isEnsemble ? {
+        Model_Agreement: result?.ensemble ? Number(result.ensemble.agreement.toFixed(2)) : '',
+        Model_Votes: (result?.ensemble?.votes || [])
+          .map(v => `${v.model}=${v.error ? 'failed' : v.code}`)
+          .join('; ')
+      } : {}),
+      ...(isDoubleCoded ? {
+        First_Coder: doubleCoding?.first.coder || '',
+        First_Code: doubleCoding?.first.code || '',
+        Second_Coder: doubleCoding?.second?.coder || '',
+        Second_Code: doubleCoding?.second?.code || '',
+        Adjudication: doubleCoding?.resolution || ''
+      } : {}),
+      Review_State: reviewState || '',
+      Review_Reason: reviewReason || '',
       Manual_Edit: manuallyEdited ? 'Yes' : 'No',
+      Edited_By: editedBy || '',
+      Retries: retryCount || 0,
       Error: errorMessage || ''
     };
   });
 
+  const auditData = getAuditTrail(rows, deletedRows).map(({ row, change, deleted }) => ({
+    Source_ID: row.sourceId || '',
+    Input_Text: row['primaryText'],
+    Timestamp: new Date(change.at).toISOString(),
+    Action: change.action,
+    Source: change.source,
+    Actor: change.actor,
+    Old_Code: change.before?.code || '',
+    Old_Label: change.before?.label || '',
+    Old_Confidence: change.before?.confidence || '',
+    New_Code: change.after?.code || '',
+    New_Label: change.after?.label || '',
+    New_Confidence: change.after?.confidence || '',
+    Note: change.note || '',
+    Row_Deleted: deleted ? 'Yes' : 'No'
+  }));
+
   const worksheet = XLSX.utils.json_to_sheet(exportData);
   const workbook = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(workbook, worksheet, "Coded Data");
+  if (auditData.length > 0 && format !== 'csv') {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(auditData), "Audit Trail");
+  }
 
   // Generate file
   XLSX.writeFile(workbook, `${baseFilename}.${format}`);
-};
\ No newline at end of file
+  if (auditData.length > 0 && format === 'csv') {
+    const auditBook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(auditBook, XLSX.utils.json_to_sheet(auditData), "Audit Trail");
+    XLSX.writeFile(auditBook, `${baseFilename}_audit.csv`);
+  }
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, detectDelimiter, detectEncoding, makeUniqueHeaders, parseCsvText, previewCsvFile, readCsvFile } from './csvParser';
+
+describe('parseCsvText', () => {
+  it('handles quoted delimiters, line breaks and doubled quotes', () => {
+    const text = 'id,title\r\n1,"Teacher, primary"\r\n2,"Says ""hi""\nand leaves"\r\n';
+    expect(parseCsvText(text, ',')).toEqual([
+      ['id', 'title'],
+      ['1', 'Teacher, primary'],
+      ['2', 'Says "hi"\nand leaves']
+    ]);
+  });
+
+  it('accepts LF, CRLF and bare CR record endings', () => {
+    expect(parseCsvText('a;b\nc;d\r\ne;f\rg;h', ';')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']]);
+  });
+
+  it('keeps empty fields and a trailing empty field', () => {
+    expect(parseCsvText('a,,c,\n', ',')).toEqual([['a', '', 'c', '']]);
+  });
+
+  it('keeps a stray quote inside an unquoted field as text', () => {
+    expect(parseCsvText('5" pipe,x', ',')).toEqual([['5" pipe', 'x']]);
+  });
+});
+
+describe('createCsvParser', () => {
+  it('gives the same records whatever the chunk boundaries', () => {
+    const text = 'id,title\r\n1,"a ""quoted"", value"\r\n2,plain\r\n';
+    const records: string[][] = [];
+    const parser = createCsvParser(',', record => records.push(record));
+    for (const char of text) parser.push(char);
+    parser.end();
+    expect(records).toEqual(parseCsvText(text, ','));
+  });
+});
+
+describe('makeUniqueHeaders', () => {
+  it('names blank, repeated and reserved headers', () => {
+    expect(makeUniqueHeaders(['Title', '', 'title', 'rowKey'], 5)).toEqual(['Title', 'Column_2', 'title_2', 'rowKey_2', 'Column_5']);
+  });
+
+  it('renames columns that share a name with any row field', () => {
+    expect(makeUniqueHeaders(['history', 'reviewState', 'doubleCoding', 'candidates'])).toEqual(['history_2', 'reviewState_2', 'doubleCoding_2', 'candidates_2']);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter giving consistent multi-column records', () => {
+    expect(detectDelimiter('id;title;code\n1;Teacher, primary;2341\n2;Cook;5120\n')).toBe(';');
+    expect(detectDelimiter('id\ttitle\n1\tTeacher\n')).toBe('\t');
+    expect(detectDelimiter('id,title\n1,"A; B"\n')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('recognizes byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xEF, 0xBB, 0xBF, 0x61]))).toEqual({ encoding: 'utf-8', bomLength: 3 });
+    expect(detectEncoding(new Uint8Array([0xFF, 0xFE, 0x61, 0x00]))).toEqual({ encoding: 'utf-16le', bomLength: 2 });
+  });
+
+  it('falls back to Windows-1252 for invalid UTF-8', () => {
+    // "café" in Windows-1252
+    expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xE9])).encoding).toBe('windows-1252');
+  });
+
+  it('does not count a multi-byte sequence cut off at the end of a sample against UTF-8', () => {
+    // "é" is C3 A9; the sample ends after C3
+    expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xC3]), true).encoding).toBe('utf-8');
+  });
+});
+
+describe('previewCsvFile and readCsvFile', () => {
+  it('detects options, skips the BOM and reads rows under the headers', async () => {
+    const file = new Blob([new Uint8Array([0xEF, 0xBB, 0xBF]), 'id;title\n1;Café\n;\n2;"Cook; head"\n']);
+
+    const preview = await previewCsvFile(file);
+    expect(preview).toMatchObject({ encoding: 'utf-8', delimiter: ';', bom: true });
+    expect(preview.records[0]).toEqual(['id', 'title']);
+
+    const rows = await readCsvFile(file, { encoding: preview.encoding, delimiter: preview.delimiter });
+    expect(rows.map(({ rowKey, ...row }) => row)).toEqual([
+      { id: '1', title: 'Café' },
+      { id: '2', title: 'Cook; head' }
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import { CsvOptions, CsvPreview, ProcessedRow, RawDataRow } from "../types";
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const CSV_ENCODINGS: { value: string; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'iso-8859-2', label: 'ISO-8859-2 (Central European)' }
+];
+
+const SNIFF_BYTES = 64 * 1024;
+const PREVIEW_RECORDS = 10;
+
+// --- Streaming RFC 4180 tokenizer ---
+// Text is pushed in arbitrary chunks; quoted fields may contain delimiters, CR/LF and
+// doubled quotes (""), and records may end in CRLF, LF or a bare CR.
+export const createCsvParser = (delimiter: string, onRecord: (record: string[]) => void) => {
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // Saw a quote inside a quoted field; next char decides escape vs close
+  let skipLf = false;       // Last record ended on CR; swallow a following LF
+  let fieldStarted = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    onRecord(record);
+    record = [];
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLf) {
+        skipLf = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+          // Fall through: the quote closed the field, handle this char normally
+        } else if (char === '"') {
+          quotePending = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n') {
+        endRecord();
+      } else if (char === '\r') {
+        endRecord();
+        skipLf = true;
+      } else {
+        // Lenient: a stray quote inside an unquoted field is kept as text
+        field += char;
+        fieldStarted = true;
+      }
+    }
+  };
+
+  const end = () => {
+    if (quotePending) {
+      quotePending = false;
+      inQuotes = false;
+    }
+    if (fieldStarted || field !== '' || record.length > 0) endRecord();
+  };
+
+  return { push, end };
+};
+
+export const parseCsvText = (text: string, delimiter: string, maxRecords = Infinity): string[][] => {
+  const records: string[][] = [];
+  const parser = createCsvParser(delimiter, record => {
+    if (records.length < maxRecords) records.push(record);
+  });
+  parser.push(text);
+  parser.end();
+  return records;
+};
+
+// Declared ProcessedRow fields, without the index signature for the file's columns
+type ProcessedRowField = keyof { [K in keyof ProcessedRow as string extends K ? never : K]: true };
+
+// Every declared field must be listed, so a field added to ProcessedRow fails the type-check here
+const PROCESSED_ROW_FIELDS: Record<ProcessedRowField, true> = {
+  rowKey: true, codingStatus: true, result: true, errorMessage: true, manuallyEdited: true,
+  retryCount: true, sharedFrom: true, sourceId: true, tertiaryText: true, candidates: true,
+  reviewState: true, reviewReason: true, editedBy: true, doubleCoding: true, history: true
+};
+
+// Field names the app stores on each row next to the file's columns
+const RESERVED_FIELDS = new Set([...Object.keys(PROCESSED_ROW_FIELDS), 'primaryText', 'secondaryText']);
+
+// Blank headers become "Column_N" and repeats get a "_2", "_3" suffix so no column is dropped
+// or overwritten; columns wider than the header row are named the same way
+export const makeUniqueHeaders = (raw: unknown[], width: number = raw.length): string[] => {
+  const used = new Set<string>();
+  const headers: string[] = [];
+  for (let i = 0; i < Math.max(width, raw.length); i++) {
+    const base = String(raw[i] ?? '').replace(/\s+/g, ' ').trim() || `Column_${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()) || RESERVED_FIELDS.has(name); n++) name = `${base}_${n}`;
+    used.add(name.toLowerCase());
+    headers.push(name);
+  }
+  return headers;
+};
+
+// --- Detection ---
+
+// `truncated` means the bytes are only the start of the file, so a multi-byte
+// sequence cut off at the end is not evidence against UTF-8
+export const detectEncoding = (bytes: Uint8Array, truncated = false): { encoding: string; bomLength: number } => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { encoding: 'utf-8', bomLength: 3 };
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { encoding: 'utf-16le', bomLength: 2 };
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { encoding: 'utf-16be', bomLength: 2 };
+
+  // No BOM: valid UTF-8 stays UTF-8, anything else is most likely a Windows/Excel export
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: truncated });
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 };
+  }
+};
+
+// Picks the delimiter that splits the sample into the most consistent multi-column records
+export const detectDelimiter = (sample: string): string => {
+  // Drop a possibly truncated last line
+  const lastBreak = Math.max(sample.lastIndexOf('\n'), sample.lastIndexOf('\r'));
+  const text = lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+
+  let best = { delimiter: ',', score: 0 };
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const records = parseCsvText(text, value, 50).filter(r => r.some(f => f.trim() !== ''));
+    if (records.length === 0) return;
+    const headerWidth = records[0].length;
+    if (headerWidth < 2) return;
+    const consistent = records.filter(r => r.length === headerWidth).length / records.length;
+    const score = consistent * headerWidth;
+    if (score > best.score) best = { delimiter: value, score };
+  });
+  return best.delimiter;
+};
+
+const readBytes = async (file: Blob, length: number): Promise<Uint8Array> => {
+  return new Uint8Array(await file.slice(0, length).arrayBuffer());
+};
+
+const bomLengthFor = (bytes: Uint8Array, encoding: string): number => {
+  const detected = detectEncoding(bytes);
+  return detected.bomLength > 0 && detected.encoding === encoding ? detected.bomLength : 0;
+};
+
+// Reads the start of the file, detects (or applies) encoding and delimiter and returns the first records
+export const previewCsvFile = async (file: Blob, overrides: Partial<CsvOptions> = {}): Promise<CsvPreview> => {
+  const bytes = await readBytes(file, SNIFF_BYTES);
+  const detected = detectEncoding(bytes, file.size > SNIFF_BYTES);
+  const encoding = overrides.encoding || detected.encoding;
+  const bomLength = bomLengthFor(bytes, encoding);
+
+  const sample = new TextDecoder(encoding).decode(bytes.subarray(bomLength), { stream: true });
+  const delimiter = overrides.delimiter || detectDelimiter(sample);
+  const lastBreak = Math.max(sample.lastIndexOf('\n'), sample.lastIndexOf('\r'));
+  const complete = file.size > SNIFF_BYTES && lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+
+  return {
+    encoding,
+    delimiter,
+    bom: bomLength > 0,
+    records: parseCsvText(complete, delimiter, PREVIEW_RECORDS + 1)
+  };
+};
+
+// Streams the whole file through the decoder and parser; the first record is the header row
+export const readCsvFile = async (file: Blob, options: CsvOptions): Promise<RawDataRow[]> => {
+  const bomLength = bomLengthFor(await readBytes(file, 4), options.encoding);
+  const decoder = new TextDecoder(options.encoding);
+
+  let headers: string[] | null = null;
+  const rows: RawDataRow[] = [];
+  const parser = createCsvParser(options.delimiter, record => {
+    if (!headers) {
+      headers = makeUniqueHeaders(record);
+      return;
+    }
+    if (record.every(value => value.trim() === '')) return;
+    // A ragged row wider than the header gets extra generated column names
+    if (record.length > headers.length) headers = makeUniqueHeaders(headers, record.length);
+
+    const row: RawDataRow = { rowKey: crypto.randomUUID() };
+    headers.forEach((header, index) => {
+      row[header] = record[index] !== undefined ? record[index].trim() : '';
+    });
+    rows.push(row);
+  });
+
+  const reader = file.slice(bomLength).stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  parser.end();
+
+  return rows;
+};
@@ -0,0 +1,35 @@
+import { ProcessedRow } from "../types";
+
+// Normalizes a verbatim for duplicate detection: case, whitespace and trailing sentence
+// punctuation ("Teacher.", " teacher ", "TEACHER") collapse to one key. Other symbols stay,
+// so "C++", "C#" and ".NET" are not coded as "C" or "NET".
+export const normalizeInputText = (text: string): string => {
+  return String(text ?? '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s.,;:!?…]+$/u, '');
+};
+
+// Key identifying rows that would receive the same prompt
+export const getInputKey = (row: ProcessedRow): string => {
+  return `${normalizeInputText(row['primaryText'])}\u0000${normalizeInputText(row['secondaryText'])}\u0000${normalizeInputText(row['tertiaryText'] || '')}`;
+};
+
+// Text ISIC-coded in dual coding; the description stands in when no industry column is mapped
+export const getIndustryText = (row: ProcessedRow): string => {
+  return String(row['tertiaryText'] || row['secondaryText'] || '');
+};
+
+// Groups rows by normalized input, keeping first-seen order; the first row of each group is coded
+export const groupIdenticalInputs = (rows: ProcessedRow[]): ProcessedRow[][] => {
+  const groups = new Map<string, ProcessedRow[]>();
+  rows.forEach(row => {
+    const key = getInputKey(row);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  });
+  return Array.from(groups.values());
+};